@@ -4,7 +4,8 @@
  * This class represents an AI-controlled opponent in the game. It stores key attributes
  * that determine the AI's behavior during gameplay, such as the power of its shots,
  * the rotation angle (direction) it aims at, and an evaluation metric that can be used
- * to assess or adjust its performance.
+ * to assess or adjust its performance. In games where shots are called, it also stores the call
+ * that goes with the shot.
  */
 export class AIOpponent {
 
@@ -14,10 +15,14 @@ export class AIOpponent {
    * @param {number} power - The power level of the AI's shots. This determines how hard the AI strikes the ball.
    * @param {number} rotation - The rotation angle in radians that the AI uses to aim its shots.
    * @param {number} evaluation - A metric used to evaluate the AI's performance, potentially for adjusting its strategy.
+   * @param {number} calledBall - The index in the game world's balls of the ball the AI calls for the shot, or -1 for no call.
+   * @param {number} calledPocket - The index in the table's pocket positions of the pocket the AI calls, or -1 for no call.
    */
   constructor(
     public power: number = 50,     // Default power level of 50
     public rotation: number = 0,   // Default rotation angle of 0 radians (pointing right)
-    public evaluation: number = 0  // Default evaluation metric of 0
+    public evaluation: number = 0, // Default evaluation metric of 0
+    public calledBall: number = -1, // No ball called by default
+    public calledPocket: number = -1 // No pocket called by default
   ) { }
 }
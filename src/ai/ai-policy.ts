@@ -54,7 +54,7 @@ export class AIPolicy {
     }
     // Apply penalties if the turn is invalid
     else {
-      evaluation -= GameConfig.ai.invalidTurnPenalty; // Penalty for an invalid turn
+      evaluation -= GameConfig.ai.invalidTurnPenalty * gameWorld.verdict.fouls.length; // Penalty for each foul of the turn
 
       // Additional penalty if the game is lost
       if (gameWorld.isGameOver) {
@@ -0,0 +1,17 @@
+import { IAIConfig } from '../game.config.type';
+import { IWorldSnapshot } from '../game-objects/world-snapshot';
+
+/**
+ * IAIRequest
+ *
+ * This interface describes the request the game sends to the AI's web worker: the table to search a shot on,
+ * together with the AI settings chosen in the menu and a seed, so the search draws the same random numbers
+ * each time the game is replayed from its seed. Each request has an id of its own, which the worker sends back
+ * with its answer.
+ */
+export interface IAIRequest {
+  id: number;               // The id of the request, sent back with the answer
+  snapshot: IWorldSnapshot; // The game world waiting for the AI's turn
+  aiConfig: IAIConfig;      // The AI settings, such as the number of training iterations of the difficulty
+  seed: number;             // The seed of the worker's random numbers for the search
+}
@@ -0,0 +1,12 @@
+import { AIOpponent } from './ai-opponent';
+
+/**
+ * IAIResponse
+ *
+ * This interface describes the answer the AI's web worker sends back to the game: the best shot it found,
+ * with the id of the request it answers, so the game can drop answers to requests it no longer waits for.
+ */
+export interface IAIResponse {
+  id: number;       // The id of the request the shot answers
+  shot: AIOpponent; // A plain copy of the best opponent the worker found
+}
@@ -4,37 +4,55 @@ import { GameConfig } from './../game.config';
 import { GameWorld } from './../game-objects/game-world';
 import { AIOpponent } from './ai-opponent';
 import { AIPolicy } from './ai-policy';
-import cloneDeep from 'lodash/cloneDeep';
-import { Mouse } from '../input/mouse';
+import { ShotPlanner } from './shot-planner';
+import { Random } from '../common/random';
+import { Color } from '../common/color';
+import { Ball } from '../game-objects/ball';
+import { TurnPhase } from '../game-objects/turn-phase';
+import { IAIRequest } from './ai-request';
+import { IAIResponse } from './ai-response';
+import { IWorldSnapshot } from '../game-objects/world-snapshot';
+import { createRuleSet } from '../rules/rule-set-factory';
 
 // Load configurations from the game configuration
 const aiConfig: IAIConfig = GameConfig.ai;
 const stickConfig: IStickConfig = GameConfig.stick;
 
+// Distance (in pixels) between the positions tried for the cue ball in hand
+const ballInHandSearchStep: number = 5;
+
 /**
  * AITrainer
  *
  * This class is responsible for training the AI opponent in the game. It manages the process of
  * simulating turns, evaluating the AI's performance, and adjusting its strategy through mutation
  * and randomization. The AITrainer uses a policy to evaluate different game states and iteratively
- * improves the AI's ability to play the game.
+ * improves the AI's ability to play the game. Each session first tries the shots a planner finds
+ * with ghost-ball geometry, so makeable balls are potted without a long random search. In the browser
+ * the search runs in a web worker, which is sent a snapshot of the table and answers with the best
+ * shot, so the game keeps drawing while the AI thinks.
  */
 export class AITrainer {
 
   private _policy: AIPolicy;             // The policy used to evaluate game states
+  private _planner: ShotPlanner;         // The planner finding the shots that pot a ball
+  private _plannedShots: AIOpponent[];   // The planned shots still to try in the current session
   private _opponents: AIOpponent[];      // Array of AI opponents generated during training
   private _currentOpponent: AIOpponent;  // The AI opponent currently being tested
-  private _initialGameWorld: GameWorld;  // The initial game state used for training
+  private _initialSnapshot: IWorldSnapshot; // The snapshot of the game state every iteration of training starts from
   private _gameWorld: GameWorld;         // The game state during the current iteration of training
   private _iteration: number = 0;        // The current iteration of the training process
   private _finishedSession: boolean = true; // Flag indicating whether the training session is complete
   private _bestOpponent: AIOpponent;     // The best-performing AI opponent found during training
-  private _soundOnState: boolean;        // Stores the original sound state to restore after training
+  private _worker: Worker;               // The web worker searching for the shots, or undefined to search on the main thread
+  private _answer: (shot: AIOpponent) => void; // What to do with the best shot the worker sends back
+  private _requestId: number = 0;        // The id of the last request posted to the worker
 
   //------Properties------//
 
   /**
-   * Indicates whether the current training session has finished.
+   * Indicates whether the current training session has finished. While a web worker searches for the shot,
+   * the session lasts until it answers.
    *
    * @returns {boolean} True if the session is finished, false otherwise.
    */
@@ -45,39 +63,70 @@ export class AITrainer {
   //------Constructor------//
 
   /**
-   * Constructs an instance of the AITrainer class and initializes the evaluation policy.
+   * Constructs an instance of the AITrainer class and initializes the evaluation policy and the shot planner.
    */
   constructor() {
     this._policy = new AIPolicy();
+    this._planner = new ShotPlanner();
   }
 
   //------Private Methods------//
 
   /**
    * Places the cue ball in a valid position when the ball is in hand.
-   * This method adjusts the ball's position to ensure it is in a valid location according to game rules.
+   * This method searches the table in rings of growing radius around the position where the rules start
+   * the cue ball, so a ball placed in the kitchen or the D stays close to where it would start. The search
+   * ends at the far corner of the table; if no position there is valid, the cue ball is left in hand.
    *
    * @param {GameWorld} gameWorld - The current game world where the ball will be placed.
    */
   private placeBallInHand(gameWorld: GameWorld): void {
-    debugger;
+    const start: Vector2 = Vector2.copy(gameWorld.cueBallPosition);
+    const maxDistance: number = Math.hypot(gameWorld.table.size.x, gameWorld.table.size.y);
+
+    for (let distance = 0; distance <= maxDistance; distance += ballInHandSearchStep) {
+      const positions: number = Math.max(1, Math.ceil(2 * Math.PI * distance / ballInHandSearchStep));
 
-    let marginX = 5;
-    let pos = Vector2.copy(GameConfig.cueBallPosition);
+      for (let i = 0; i < positions; i++) {
+        const angle: number = 2 * Math.PI * i / positions;
+        const position: Vector2 = start.add(new Vector2(Math.cos(angle), Math.sin(angle)).mult(distance));
 
-    while (!gameWorld.isValidPosToPlaceCueBall(pos)) {
-      pos.addToX(marginX);
+        if (gameWorld.isValidPosToPlaceCueBall(position)) {
+          gameWorld.placeBallInHand(position);
+          return;
+        }
+      }
     }
+  }
 
-    gameWorld.placeBallInHand(pos);
+  /**
+   * Calls the shot the current opponent has just simulated, when the shot has to be called: the first
+   * object ball it pocketed, in the pocket it dropped into. The call is kept with the opponent, so the
+   * AI makes the same call when it takes the shot.
+   *
+   * @param {GameWorld} gameWorld - The game world where the shot was simulated, before its turn is concluded.
+   */
+  private callSimulatedShot(gameWorld: GameWorld): void {
+    if (!gameWorld.isCallRequired) {
+      return;
+    }
+
+    const ball: Ball = gameWorld.pocketedBallsOnTurn.find((ball: Ball) => ball.color !== Color.white);
+    if (ball) {
+      gameWorld.callShot(ball, gameWorld.getPocketOfBall(ball));
+      this._currentOpponent.calledBall = gameWorld.balls.indexOf(ball);
+      this._currentOpponent.calledPocket = gameWorld.getPocketOfBall(ball);
+    }
   }
 
   /**
-   * Initializes the AI training process by resetting opponents, iterations, and selecting a random opponent.
+   * Initializes the AI training process by resetting opponents and iterations, planning the shots to try first,
+   * and selecting the first planned shot, or a random opponent if no shot was planned.
    */
   private init(): void {
     this._opponents = [];
-    this._currentOpponent = this.createRandomOpponent();
+    this._plannedShots = aiConfig.shotPlanner ? this._planner.planShots(this._gameWorld) : [];
+    this._currentOpponent = this._plannedShots.shift() || this.createRandomOpponent();
     this._bestOpponent = this._currentOpponent;
     this._iteration = 0;
   }
@@ -91,16 +140,16 @@ export class AITrainer {
    */
   private createMutation(opponent: AIOpponent): AIOpponent {
     let newPower = opponent.power;
-    newPower += (Math.random() * 2 * aiConfig.shotPowerMutationVariance) - aiConfig.shotPowerMutationVariance;
+    newPower += Random.range(-aiConfig.shotPowerMutationVariance, aiConfig.shotPowerMutationVariance);
     newPower = newPower < aiConfig.minShotPower ? aiConfig.minShotPower : newPower;
     newPower = newPower > stickConfig.maxPower ? stickConfig.maxPower : newPower;
 
     let newRotation = opponent.rotation;
 
     if (opponent.evaluation > 0) {
-      newRotation += (1 / opponent.evaluation) * (Math.random() * 2 * Math.PI - Math.PI);
+      newRotation += (1 / opponent.evaluation) * Random.range(-Math.PI, Math.PI);
     } else {
-      newRotation = (Math.random() * 2 * Math.PI - Math.PI);
+      newRotation = Random.range(-Math.PI, Math.PI);
     }
 
     return new AIOpponent(newPower, newRotation);
@@ -112,8 +161,8 @@ export class AITrainer {
    * @returns {AIOpponent} A new AI opponent with randomized attributes.
    */
   private createRandomOpponent(): AIOpponent {
-    const power: number = (Math.random() * 75 + 1);
-    const rotation: number = (Math.random() * 2 * Math.PI);
+    const power: number = Random.range(1, 76);
+    const rotation: number = Random.range(0, 2 * Math.PI);
 
     return new AIOpponent(power, rotation);
   }
@@ -125,13 +174,12 @@ export class AITrainer {
   private train(): void {
 
     if (this._iteration === aiConfig.trainIterations) {
-      GameConfig.soundOn = this._soundOnState;
-      this.playTurn();
       this._finishedSession = true;
       return;
     }
 
     if (this._gameWorld.isBallsMoving) return;
+    this.callSimulatedShot(this._gameWorld);
     this._gameWorld.concludeTurn();
 
     this._currentOpponent.evaluation = this._policy.evaluate(this._gameWorld);
@@ -139,7 +187,9 @@ export class AITrainer {
     const current: AIOpponent = new AIOpponent(
       this._currentOpponent.power,
       this._currentOpponent.rotation,
-      this._currentOpponent.evaluation
+      this._currentOpponent.evaluation,
+      this._currentOpponent.calledBall,
+      this._currentOpponent.calledPocket
     );
 
     this._opponents.push(current);
@@ -148,20 +198,79 @@ export class AITrainer {
       this._bestOpponent = current;
     }
 
-    this._gameWorld = cloneDeep(this._initialGameWorld);
+    this._gameWorld.restore(this._initialSnapshot);
     this._currentOpponent = this.buildNewOpponent();
     this._iteration++;
     this.simulate();
   }
 
+  /**
+   * Asks for the best shot in a game world, from the web worker if there is one, or from a search on the main
+   * thread otherwise. The answer is given once the session has finished, so it may start the AI's next session.
+   * A request posted to the worker replaces any earlier one still waiting for its answer.
+   *
+   * @param {GameWorld} gameWorld - The game world waiting for the AI's turn.
+   * @param {(shot: AIOpponent) => void} answer - What to do with the best shot.
+   */
+  private requestBestShot(gameWorld: GameWorld, answer: (shot: AIOpponent) => void): void {
+    if (!this._worker) {
+      answer(this.findBestShot(gameWorld));
+      return;
+    }
+
+    const request: IAIRequest = {
+      id: ++this._requestId,
+      snapshot: gameWorld.snapshot(),
+      aiConfig,
+      seed: Random.integer(0x100000000),
+    };
+
+    this._finishedSession = false;
+    this._answer = answer;
+    this._worker.postMessage(request);
+  }
+
   //------Public Methods------//
 
   /**
-   * Builds a new AI opponent by either creating a random opponent or mutating the best-performing opponent.
+   * Makes the AI search for its shots in a web worker, which answers the requests it is posted
+   * with the best shot it finds. Only the answer to the last request is played.
+   *
+   * @param {Worker} worker - The web worker running the AI's search.
+   */
+  public useWorker(worker: Worker): void {
+    this._worker = worker;
+    this._worker.onmessage = (event: MessageEvent<IAIResponse>) => {
+      if (event.data.id !== this._requestId) {
+        return; // The answer to a request that was cancelled or replaced since
+      }
+
+      const shot: AIOpponent = event.data.shot;
+      this._finishedSession = true;
+      this._answer(new AIOpponent(shot.power, shot.rotation, shot.evaluation, shot.calledBall, shot.calledPocket));
+    };
+  }
+
+  /**
+   * Cancels the session the web worker is searching a shot for, so the game that asked for it can be left.
+   * The worker's answer is dropped when it arrives, and the next AI turn can start a session of its own.
+   */
+  public cancelSession(): void {
+    this._requestId++;
+    this._answer = undefined;
+    this._finishedSession = true;
+  }
+
+  /**
+   * Builds a new AI opponent: the next planned shot while any are left to try, and then either a random
+   * opponent or a mutation of the best-performing opponent.
    *
-   * @returns {AIOpponent} The newly created or mutated AI opponent.
+   * @returns {AIOpponent} The planned, newly created or mutated AI opponent.
    */
   public buildNewOpponent(): AIOpponent {
+    if (this._plannedShots.length > 0) {
+      return this._plannedShots.shift();
+    }
     if (this._iteration % 10 === 0) {
       return this.createRandomOpponent();
     } else {
@@ -170,51 +279,104 @@ export class AITrainer {
   }
 
   /**
-   * Executes the best AI opponent's turn by shooting the cue ball with the calculated power and rotation.
+   * Executes the AI's turn with the given shot by making its call, if it has one, and shooting the cue ball
+   * with the calculated power and rotation.
+   *
+   * @param {GameWorld} gameWorld - The game world where the AI takes its turn.
+   * @param {AIOpponent} shot - The shot to take.
    */
-  public playTurn(): void {
-    this._initialGameWorld.shootCueBall(this._bestOpponent.power, this._bestOpponent.rotation);
+  public playTurn(gameWorld: GameWorld, shot: AIOpponent): void {
+    if (shot.calledBall >= 0) {
+      gameWorld.callShot(gameWorld.balls[shot.calledBall], shot.calledPocket);
+    }
+    gameWorld.shootCueBall(shot.power, shot.rotation);
   }
 
   /**
    * Simulates a turn for the current AI opponent by shooting the cue ball in the game world.
+   * A direction the rules forbid, such as back into the kitchen, is mirrored across the table's width first.
    */
   public simulate(): void {
+    if (!this._gameWorld.isShotAllowed(this._currentOpponent.rotation)) {
+      this._currentOpponent.rotation = Math.PI - this._currentOpponent.rotation;
+    }
     this._gameWorld.shootCueBall(this._currentOpponent.power, this._currentOpponent.rotation);
   }
 
   /**
-   * Runs the training loop, continuously training and updating the AI until the session is complete.
-   * This method is called to iteratively improve the AI's performance through simulation.
+   * Runs the training loop, continuously training and stepping the simulation until the session is complete.
+   * This method is called to iteratively improve the AI's performance through simulation. It advances the
+   * game world with the same fixed step as the game loop, so simulated shots match the real ones.
    */
   public opponentTrainingLoop(): void {
 
     while (!this._finishedSession) {
       this.train();
-      this._gameWorld.update();
+      this._gameWorld.step();
     }
+  }
 
-    Mouse.reset();
+  /**
+   * Answers the push-out of the AI's opponent. The AI trains on the position as if it took the shot,
+   * and takes the shot it found if it is a valid one, or passes it back otherwise.
+   *
+   * @param {GameWorld} gameWorld - The game world waiting for the AI to answer the push-out.
+   */
+  public answerPushOut(gameWorld: GameWorld): void {
+    this.requestBestShot(gameWorld, (shot: AIOpponent) => {
+      const takeShot: boolean = shot.evaluation >= aiConfig.validTurnBonus;
+
+      gameWorld.answerPushOut(takeShot);
+      if (takeShot) {
+        this.playTurn(gameWorld, shot);
+      }
+    });
   }
 
   /**
-   * Starts a new training session by initializing the AI, setting up the game world, and beginning simulation.
+   * Answers the illegal break of the AI's opponent. The AI always plays on, from where the balls lie,
+   * rather than breaking a new rack itself.
    *
-   * @param {GameWorld} gameWorld - The initial state of the game world to start the training session.
+   * @param {GameWorld} gameWorld - The game world waiting for the AI to answer the illegal break.
    */
-  public startSession(gameWorld: GameWorld): void {
-    this._soundOnState = GameConfig.soundOn;
-    GameConfig.soundOn = false;
-    if (gameWorld.isBallInHand) {
-      this.placeBallInHand(gameWorld);
+  public answerIllegalBreak(gameWorld: GameWorld): void {
+    gameWorld.answerIllegalBreak(true);
+  }
+
+  /**
+   * Searches for the best shot in a game world by training on a copy of it until the session is complete.
+   * The copy is restored from a snapshot of the game world before every simulated shot. A position left by
+   * the opponent's push-out is searched as if the AI took the shot. The game world itself is left as it is.
+   *
+   * @param {GameWorld} gameWorld - The game world waiting for the AI's turn, with the cue ball placed.
+   * @returns {AIOpponent} The best-performing AI opponent found.
+   */
+  public findBestShot(gameWorld: GameWorld): AIOpponent {
+    this._finishedSession = false; // The copy never starts a session of its own while this one runs
+    this._gameWorld = new GameWorld(createRuleSet(gameWorld.gameMode), gameWorld.snapshot());
+    if (this._gameWorld.turnPhase === TurnPhase.PushOutDecision) {
+      this._gameWorld.answerPushOut(true);
     }
-    this._initialGameWorld = gameWorld;
-    this._gameWorld = cloneDeep(gameWorld);
+    this._initialSnapshot = this._gameWorld.snapshot();
     this.init();
-    this._finishedSession = false;
 
     this.simulate();
     this.opponentTrainingLoop();
+
+    return this._bestOpponent;
+  }
+
+  /**
+   * Starts a new training session: places the cue ball if it is in hand, searches for the best shot
+   * and takes it once it is found.
+   *
+   * @param {GameWorld} gameWorld - The initial state of the game world to start the training session.
+   */
+  public startSession(gameWorld: GameWorld): void {
+    if (gameWorld.isBallInHand) {
+      this.placeBallInHand(gameWorld);
+    }
+    this.requestBestShot(gameWorld, (shot: AIOpponent) => this.playTurn(gameWorld, shot));
   }
 }
 
@@ -0,0 +1,32 @@
+import { GameConfig } from '../game.config';
+import { Random } from '../common/random';
+import { GameWorld } from '../game-objects/game-world';
+import { createRuleSet } from '../rules/rule-set-factory';
+import { AIOpponent } from './ai-opponent';
+import { IAIRequest } from './ai-request';
+import { IAIResponse } from './ai-response';
+import { AI } from './ai-trainer';
+
+// The global scope of the web worker, which receives the game's requests and posts back the shots
+const worker: DedicatedWorkerGlobalScope = self as DedicatedWorkerGlobalScope;
+
+/**
+ * Answers a request of the game with the best shot on the table it was sent, tagged with the id of the request.
+ * The table is restored in a game world of its own, where the search runs with the game's AI settings and seed.
+ *
+ * @param {MessageEvent<IAIRequest>} event - The message carrying the request.
+ */
+const answerRequest = (event: MessageEvent<IAIRequest>): void => {
+  const request: IAIRequest = event.data;
+
+  Object.assign(GameConfig.ai, request.aiConfig);
+  Random.seed = request.seed;
+
+  const gameWorld: GameWorld = new GameWorld(createRuleSet(request.snapshot.gameMode), request.snapshot);
+
+  const shot: AIOpponent = AI.findBestShot(gameWorld);
+  const response: IAIResponse = { id: request.id, shot };
+  worker.postMessage(response);
+};
+
+worker.addEventListener('message', answerRequest);
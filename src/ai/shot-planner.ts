@@ -0,0 +1,99 @@
+import { IAIConfig, IBallConfig, IStickConfig, IVector2 } from './../game.config.type';
+import { GameConfig } from './../game.config';
+import { Vector2 } from './../physics/vector2';
+import { GameWorld } from './../game-objects/game-world';
+import { Ball } from '../game-objects/ball';
+import { Color } from '../common/color';
+import { isPathBlocked } from '../rules/snookered';
+import { AIOpponent } from './ai-opponent';
+
+//------Configurations------//
+
+// Load configurations from the game configuration
+const aiConfig: IAIConfig = GameConfig.ai;
+const ballConfig: IBallConfig = GameConfig.ball;
+const stickConfig: IStickConfig = GameConfig.stick;
+
+/**
+ * A shot the planner found, with the distance the cue ball would roll for it on its own, which grows
+ * with the length of the shot and the width of the cut and so measures how hard the shot is.
+ */
+interface IPlannedShot {
+  opponent: AIOpponent; // The power and rotation of the shot
+  reach: number;        // The distance the cue ball would roll if it hit nothing
+}
+
+/**
+ * ShotPlanner
+ *
+ * This class plans the shots that pot a ball with plain geometry, for the AI to try before it searches at
+ * random. For every ball the player is on and every pocket, it aims the cue ball at the ghost ball, the
+ * position the cue ball must reach to send the object ball straight at the pocket. Shots blocked by other
+ * balls, cut too thin or too long for the stick are dropped, and the others are struck just hard enough
+ * to carry the object ball into the pocket.
+ */
+export class ShotPlanner {
+
+  //------Private Methods------//
+
+  /**
+   * Plans the shot potting a ball into a pocket, if it can be made.
+   *
+   * @param {GameWorld} gameWorld - The game world the shot is planned in.
+   * @param {Ball} cueBall - The cue ball.
+   * @param {Ball} target - The object ball to pot.
+   * @param {IVector2} pocket - The position of the pocket.
+   * @returns {IPlannedShot | null} The planned shot, or null if it cannot be made.
+   */
+  private planShot(gameWorld: GameWorld, cueBall: Ball, target: Ball, pocket: IVector2): IPlannedShot | null {
+    const pocketPosition: Vector2 = Vector2.copy(pocket);
+    const objectPath: Vector2 = pocketPosition.subtract(target.position);
+    const ghostBall: Vector2 = target.position.subtract(objectPath.mult(ballConfig.diameter / objectPath.length));
+    const cuePath: Vector2 = ghostBall.subtract(cueBall.position);
+    const cosCut: number = cuePath.dot(objectPath) / (cuePath.length * objectPath.length);
+    const rotation: number = Math.atan2(cuePath.y, cuePath.x);
+
+    if (cosCut < Math.cos(aiConfig.maxCutAngle) || !gameWorld.isShotAllowed(rotation)) {
+      return null;
+    }
+
+    const obstacles: Ball[] = gameWorld.balls.filter((ball: Ball) => ball !== cueBall && ball !== target && ball.onTable);
+    if (isPathBlocked(cueBall.position, ghostBall, obstacles) || isPathBlocked(target.position, pocketPosition, obstacles)) {
+      return null;
+    }
+
+    // The object ball takes the share of the cue ball's speed along the line of centres, so a cut needs more power
+    const objectReach: number = (objectPath.length + aiConfig.pocketSpeedMargin) / (aiConfig.objectBallTransfer * cosCut * cosCut);
+    const reach: number = cuePath.length + objectReach;
+    const power: number = Math.sqrt(reach / aiConfig.shotReach);
+
+    return power <= stickConfig.maxPower ? { opponent: new AIOpponent(power, rotation), reach } : null;
+  }
+
+  //------Public Methods------//
+
+  /**
+   * Plans the shots potting each ball the current player is on into each pocket, leaving out those that
+   * cannot be made.
+   *
+   * @param {GameWorld} gameWorld - The game world the shots are planned in, with the cue ball placed.
+   * @returns {AIOpponent[]} The planned shots, the easiest first.
+   */
+  public planShots(gameWorld: GameWorld): AIOpponent[] {
+    const cueBall: Ball = gameWorld.balls.find((ball: Ball) => ball.color === Color.white);
+    const shots: IPlannedShot[] = [];
+
+    gameWorld.ballsOn
+      .filter((ball: Ball) => ball.onTable)
+      .forEach((target: Ball) => gameWorld.table.pocketsPositions.forEach((pocket: IVector2) => {
+        const shot: IPlannedShot | null = this.planShot(gameWorld, cueBall, target, pocket);
+        if (shot) {
+          shots.push(shot);
+        }
+      }));
+
+    return shots
+      .sort((a: IPlannedShot, b: IPlannedShot) => a.reach - b.reach)
+      .map((shot: IPlannedShot) => shot.opponent);
+  }
+}
@@ -19,6 +19,7 @@ class Canvas2D_Singleton {
   private _context: CanvasRenderingContext2D; // The 2D rendering context for drawing on the canvas
   private _scale: Vector2;               // The scaling factor applied to the canvas
   private _offset: Vector2;              // The offset position of the canvas within the container
+  private _zoom: number = 1;             // The zoom applied to what is drawn, below 1 for a game world larger than the screen
 
   //------Properties------//
 
@@ -58,6 +59,26 @@ class Canvas2D_Singleton {
     return this._offset.y;
   }
 
+  /**
+   * Getter for the zoom applied to everything drawn, on top of the canvas scale.
+   *
+   * @returns {number} The zoom, 1 when drawing at the game's size.
+   */
+  public get zoom() {
+    return this._zoom;
+  }
+
+  /**
+   * Setter for the zoom applied to everything drawn, on top of the canvas scale. A game world
+   * larger than the game's size is drawn zoomed out to fit, and the zoom is set back to 1 for
+   * the labels around it.
+   *
+   * @param {number} zoom - The new zoom.
+   */
+  public set zoom(zoom: number) {
+    this._zoom = zoom;
+  }
+
   //------Constructor------//
 
   /**
@@ -134,17 +155,20 @@ class Canvas2D_Singleton {
    * @param {IVector2} [position={x: 0, y: 0}] - The position to draw the image at (default is (0, 0)).
    * @param {number} [rotation=0] - The rotation angle in radians (default is 0).
    * @param {IVector2} [origin={x: 0, y: 0}] - The origin point for rotation (default is (0, 0)).
+   * @param {number} [scale=1] - The size of the image relative to the sprite, around the origin (default is 1).
    */
   public drawImage(
     sprite: HTMLImageElement,
     position: IVector2 = { x: 0, y: 0 },
     rotation: number = 0,
-    origin: IVector2 = { x: 0, y: 0 }
+    origin: IVector2 = { x: 0, y: 0 },
+    scale: number = 1
   ) {
     this._context.save(); // Save the current state of the canvas
-    this._context.scale(this._scale.x, this._scale.y); // Scale the canvas according to the calculated factors
+    this._context.scale(this._scale.x * this._zoom, this._scale.y * this._zoom); // Scale the canvas according to the calculated factors and the zoom
     this._context.translate(position.x, position.y); // Move the canvas to the desired position
     this._context.rotate(rotation); // Rotate the canvas by the specified angle
+    this._context.scale(scale, scale); // Scale the image around its origin
     // Draw the image, adjusting for the origin point and scaling
     this._context.drawImage(sprite, 0, 0, sprite.width, sprite.height, -origin.x, -origin.y, sprite.width, sprite.height);
     this._context.restore(); // Restore the canvas to its original state
@@ -159,17 +183,159 @@ class Canvas2D_Singleton {
    * @param {string} color - The color of the text.
    * @param {IVector2} position - The position to draw the text at.
    * @param {string} [textAlign='left'] - The alignment of the text (default is 'left').
+   * @param {string} [textBaseline='alphabetic'] - The vertical alignment of the text (default is 'alphabetic').
    */
-  public drawText(text: string, font: string, color: string, position: IVector2, textAlign: string = 'left'): void {
+  public drawText(
+    text: string,
+    font: string,
+    color: string,
+    position: IVector2,
+    textAlign: string = 'left',
+    textBaseline: string = 'alphabetic'
+  ): void {
     this._context.save(); // Save the current state of the canvas
-    this._context.scale(this._scale.x, this._scale.y); // Scale the canvas according to the calculated factors
+    this._context.scale(this._scale.x * this._zoom, this._scale.y * this._zoom); // Scale the canvas according to the calculated factors and the zoom
     this._context.fillStyle = color; // Set the text color
     this._context.font = font; // Set the font style and size
     this._context.textAlign = textAlign as CanvasTextAlign; // Set the text alignment
+    this._context.textBaseline = textBaseline as CanvasTextBaseline; // Set the vertical alignment of the text
     this._context.fillText(text, position.x, position.y); // Draw the text at the specified position
     this._context.restore(); // Restore the canvas to its original state
   }
 
+  /**
+   * Draws a filled circle on the canvas at a specified position, with a given radius and color.
+   * The circle is scaled according to the canvas scale.
+   *
+   * @param {IVector2} position - The centre of the circle.
+   * @param {number} radius - The radius of the circle.
+   * @param {string} color - The fill color of the circle.
+   */
+  public drawCircle(position: IVector2, radius: number, color: string): void {
+    this._context.save(); // Save the current state of the canvas
+    this._context.scale(this._scale.x * this._zoom, this._scale.y * this._zoom); // Scale the canvas according to the calculated factors and the zoom
+    this._context.fillStyle = color; // Set the fill color
+    this._context.beginPath();
+    this._context.arc(position.x, position.y, radius, 0, 2 * Math.PI); // Trace the circle
+    this._context.fill(); // Fill the circle
+    this._context.restore(); // Restore the canvas to its original state
+  }
+
+  /**
+   * Draws a filled rectangle on the canvas at a specified position, with a given size and color.
+   * The rectangle is scaled according to the canvas scale.
+   *
+   * @param {IVector2} position - The top left corner of the rectangle.
+   * @param {IVector2} size - The width and height of the rectangle.
+   * @param {string} color - The fill color of the rectangle.
+   */
+  public drawRect(position: IVector2, size: IVector2, color: string): void {
+    this._context.save(); // Save the current state of the canvas
+    this._context.scale(this._scale.x * this._zoom, this._scale.y * this._zoom); // Scale the canvas according to the calculated factors and the zoom
+    this._context.fillStyle = color; // Set the fill color
+    this._context.fillRect(position.x, position.y, size.x, size.y); // Fill the rectangle
+    this._context.restore(); // Restore the canvas to its original state
+  }
+
+  /**
+   * Draws a filled sector of a circle on the canvas, from one angle to another clockwise, with a given color.
+   * The sector is scaled according to the canvas scale.
+   *
+   * @param {IVector2} position - The centre of the circle.
+   * @param {number} radius - The radius of the circle.
+   * @param {number} startAngle - The angle (in radians) the sector starts at.
+   * @param {number} endAngle - The angle (in radians) the sector ends at.
+   * @param {string} color - The fill color of the sector.
+   */
+  public drawSector(position: IVector2, radius: number, startAngle: number, endAngle: number, color: string): void {
+    this._context.save(); // Save the current state of the canvas
+    this._context.scale(this._scale.x * this._zoom, this._scale.y * this._zoom); // Scale the canvas according to the calculated factors and the zoom
+    this._context.fillStyle = color; // Set the fill color
+    this._context.beginPath();
+    this._context.moveTo(position.x, position.y); // Start from the centre
+    this._context.arc(position.x, position.y, radius, startAngle, endAngle); // Trace the arc
+    this._context.closePath(); // Close the sector back to the centre
+    this._context.fill(); // Fill the sector
+    this._context.restore(); // Restore the canvas to its original state
+  }
+
+  /**
+   * Draws the outline of a circle on the canvas at a specified position, with a given radius, line width and color.
+   * The ring is scaled according to the canvas scale.
+   *
+   * @param {IVector2} position - The centre of the circle.
+   * @param {number} radius - The radius of the circle.
+   * @param {number} lineWidth - The width of the outline.
+   * @param {string} color - The stroke color of the outline.
+   */
+  public drawRing(position: IVector2, radius: number, lineWidth: number, color: string): void {
+    this._context.save(); // Save the current state of the canvas
+    this._context.scale(this._scale.x * this._zoom, this._scale.y * this._zoom); // Scale the canvas according to the calculated factors and the zoom
+    this._context.strokeStyle = color; // Set the stroke color
+    this._context.lineWidth = lineWidth; // Set the width of the outline
+    this._context.beginPath();
+    this._context.arc(position.x, position.y, radius, 0, 2 * Math.PI); // Trace the circle
+    this._context.stroke(); // Stroke the outline
+    this._context.restore(); // Restore the canvas to its original state
+  }
+
+  /**
+   * Draws an arc of a circle on the canvas, from one angle to another clockwise, with a given line width and color.
+   * The arc is scaled according to the canvas scale.
+   *
+   * @param {IVector2} position - The centre of the circle.
+   * @param {number} radius - The radius of the circle.
+   * @param {number} startAngle - The angle (in radians) the arc starts at.
+   * @param {number} endAngle - The angle (in radians) the arc ends at.
+   * @param {number} lineWidth - The width of the arc.
+   * @param {string} color - The stroke color of the arc.
+   */
+  public drawArc(position: IVector2, radius: number, startAngle: number, endAngle: number, lineWidth: number, color: string): void {
+    this._context.save(); // Save the current state of the canvas
+    this._context.scale(this._scale.x * this._zoom, this._scale.y * this._zoom); // Scale the canvas according to the calculated factors and the zoom
+    this._context.strokeStyle = color; // Set the stroke color
+    this._context.lineWidth = lineWidth; // Set the width of the arc
+    this._context.beginPath();
+    this._context.arc(position.x, position.y, radius, startAngle, endAngle); // Trace the arc
+    this._context.stroke(); // Stroke the arc
+    this._context.restore(); // Restore the canvas to its original state
+  }
+
+  /**
+   * Draws the part of a filled circle that lies within a horizontal band through its centre,
+   * such as the colored band of a striped ball. The band is scaled according to the canvas scale.
+   *
+   * @param {IVector2} position - The centre of the circle.
+   * @param {number} radius - The radius of the circle.
+   * @param {number} halfHeight - Half the height of the band.
+   * @param {string} color - The fill color of the band.
+   */
+  public drawCircleBand(position: IVector2, radius: number, halfHeight: number, color: string): void {
+    this._context.save(); // Save the current state of the canvas
+    this._context.scale(this._scale.x * this._zoom, this._scale.y * this._zoom); // Scale the canvas according to the calculated factors and the zoom
+    this._context.beginPath();
+    this._context.arc(position.x, position.y, radius, 0, 2 * Math.PI); // Trace the circle
+    this._context.clip(); // Only draw inside the circle
+    this._context.fillStyle = color; // Set the fill color
+    this._context.fillRect(position.x - radius, position.y - halfHeight, 2 * radius, 2 * halfHeight); // Fill the band
+    this._context.restore(); // Restore the canvas to its original state
+  }
+
+  /**
+   * Measures the width of a text drawn in a given font, in game units.
+   *
+   * @param {string} text - The text string to measure.
+   * @param {string} font - The font style and size of the text.
+   * @returns {number} The width of the text.
+   */
+  public measureText(text: string, font: string): number {
+    this._context.save(); // Save the current state of the canvas
+    this._context.font = font; // Set the font style and size
+    const width: number = this._context.measureText(text).width;
+    this._context.restore(); // Restore the canvas to its original state
+    return width;
+  }
+
   /**
    * Changes the cursor style when hovering over the canvas. This is used to provide visual
    * feedback to the player, such as changing the cursor to a pointer when hovering over buttons.
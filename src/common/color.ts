@@ -4,6 +4,10 @@ export enum Color {
   black = '#2B2B2B',
   red = '#B62A2F',
   yellow = '#FECA34',
+  green = '#1F8F45',
+  brown = '#6B3E1F',
+  blue = '#1E4FC2',
+  pink = '#F08CB0',
   solid = 'solid',
   striped = 'striped',
 }
\ No newline at end of file
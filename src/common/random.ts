@@ -0,0 +1,110 @@
+import { GameConfig } from '../game.config';
+
+/**
+ * Random_Singleton
+ *
+ * This class is the game's single source of random numbers. It is a small seeded pseudo-random
+ * number generator (Mulberry32), so the same seed always produces the same sequence: restarting
+ * from a seed and making the same moves replays a game exactly, AI decisions included. Everything
+ * random in the game draws from this generator instead of `Math.random`. The seed comes from the
+ * configuration, or from the clock when none is configured, and can be changed at any time.
+ */
+class Random_Singleton {
+
+  //------Members------//
+
+  private _seed: number;  // The seed the current sequence started from
+  private _state: number; // The internal state of the generator, advanced on every draw
+
+  //------Properties------//
+
+  /**
+   * Gets the seed the current sequence of random numbers started from.
+   *
+   * @returns {number} The current seed.
+   */
+  public get seed(): number {
+    return this._seed;
+  }
+
+  /**
+   * Sets a new seed and restarts the sequence of random numbers from it.
+   *
+   * @param {number} value - The new seed, a non-negative integer.
+   */
+  public set seed(value: number) {
+    this._seed = value >>> 0;
+    this.reset();
+  }
+
+  //------Constructor------//
+
+  /**
+   * Constructor seeds the generator with the configured seed, or with one taken
+   * from the clock if no seed is configured.
+   */
+  constructor() {
+    this.seed = GameConfig.randomSeed ?? Date.now() % 1000000;
+  }
+
+  //------Public Methods------//
+
+  /**
+   * Restarts the sequence of random numbers from the current seed.
+   */
+  public reset(): void {
+    this._state = this._seed;
+  }
+
+  /**
+   * Draws the next random number in the sequence.
+   *
+   * @returns {number} A number from 0 (inclusive) to 1 (exclusive).
+   */
+  public next(): number {
+    this._state = (this._state + 0x6D2B79F5) | 0;
+    let t: number = this._state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Draws a random number within a range.
+   *
+   * @param {number} min - The lower end of the range (inclusive).
+   * @param {number} max - The upper end of the range (exclusive).
+   * @returns {number} A number from min to max.
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Draws a random whole number below a limit.
+   *
+   * @param {number} max - The limit (exclusive).
+   * @returns {number} A whole number from 0 to max - 1.
+   */
+  public integer(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Shuffles a copy of a list into a random order (Fisher-Yates).
+   *
+   * @param {T[]} items - The items to shuffle.
+   * @returns {T[]} A new list with the same items in a random order.
+   */
+  public shuffle<T>(items: T[]): T[] {
+    const shuffled: T[] = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j: number = this.integer(i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
+
+// Export a single instance of the Random_Singleton class for use throughout the game
+export const Random = new Random_Singleton();
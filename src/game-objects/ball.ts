@@ -1,31 +1,43 @@
-import { IBallConfig, IPhysicsConfig, IAssetsConfig } from './../game.config.type';
+import { IBallConfig, IPhysicsConfig, IStickConfig, IVector2 } from './../game.config.type';
 import { GameConfig } from '../game.config';
-import { Canvas2D } from '../canvas';
 import { Color } from '../common/color';
 import { Vector2 } from '../physics/vector2';
-import { Assets } from '../assets';
+import { IBallSnapshot } from './world-snapshot';
 
 // Load configurations from the game configuration
 const physicsConfig: IPhysicsConfig = GameConfig.physics;
-const sprites: IAssetsConfig = GameConfig.sprites;
 const ballConfig: IBallConfig = GameConfig.ball;
+const stickConfig: IStickConfig = GameConfig.stick;
 
 /**
  * Ball
  *
  * This class represents a billiard ball in the game. It handles the ball's position, velocity,
- * movement, visibility, and rendering. The ball's behavior is governed by physics settings
- * such as friction, and it interacts with other game elements based on its color and type.
+ * movement and visibility. The ball's behavior is governed by physics settings such as friction,
+ * and it interacts with other game elements based on its color and type. Drawing the ball is
+ * left to the BallRenderer, so the ball itself can be simulated without a browser.
+ *
+ * Besides its linear velocity the ball tracks its spin. Rolling spin (draw and follow) is stored
+ * as the surface speed of the ball at the cloth, so a naturally rolling ball has a spin equal to
+ * its velocity. Any difference between the two is slip, which the cloth friction turns into a
+ * change of both until the ball rolls. Side spin (english) is stored as the surface speed around
+ * the vertical axis and only takes effect when the ball touches a cushion.
  */
 export class Ball {
 
   //------Members------//
 
-  private _sprite: HTMLImageElement;  // The image representing the ball
   private _color: Color;              // The color/type of the ball
+  private _number: number;            // The number printed on the ball, or 0 for the cue ball and unnumbered balls
   private _velocity: Vector2 = Vector2.zero;  // The current velocity of the ball
+  private _spin: Vector2 = Vector2.zero;      // The rolling spin of the ball, as surface speed at the cloth
+  private _sideSpin: number = 0;              // The side spin (english) of the ball, positive is right english
   private _moving: boolean = false;   // Indicates whether the ball is currently moving
-  private _visible: boolean = true;   // Indicates whether the ball is visible on the canvas
+  private _visible: boolean = true;   // Indicates whether the ball is visible on the table
+  private _pocketed: boolean = false; // Indicates whether the ball has dropped into a pocket
+  private _dropStart: Vector2;        // The position where the ball dropped into the pocket
+  private _dropTarget: Vector2;       // The centre of the pocket the ball is sinking into
+  private _dropProgress: number = 0;  // How far the ball has sunk into the pocket, from 0 to 1
 
   //------Properties------//
 
@@ -47,15 +59,6 @@ export class Ball {
     this._position = value;
   }
 
-  /**
-   * Calculates and gets the ball's next position based on its current velocity and the physics friction.
-   *
-   * @returns {Vector2} The calculated next position of the ball.
-   */
-  public get nextPosition(): Vector2 {
-    return this.position.add(this._velocity.mult(1 - physicsConfig.friction));
-  }
-
   /**
    * Gets the current velocity of the ball.
    *
@@ -71,8 +74,45 @@ export class Ball {
    * @param {Vector2} value - The new velocity of the ball.
    */
   public set velocity(value: Vector2) {
-    this._moving = value.length > 0 ? true : false;
     this._velocity = value;
+    this._moving = this.hasMotion();
+  }
+
+  /**
+   * Gets the current rolling spin of the ball, expressed as the surface speed at the cloth.
+   *
+   * @returns {Vector2} A copy of the ball's current rolling spin.
+   */
+  public get spin(): Vector2 {
+    return Vector2.copy(this._spin);
+  }
+
+  /**
+   * Sets the rolling spin of the ball and updates its moving state.
+   *
+   * @param {Vector2} value - The new rolling spin of the ball.
+   */
+  public set spin(value: Vector2) {
+    this._spin = value;
+    this._moving = this.hasMotion();
+  }
+
+  /**
+   * Gets the current side spin (english) of the ball. Positive values are right english.
+   *
+   * @returns {number} The ball's current side spin.
+   */
+  public get sideSpin(): number {
+    return this._sideSpin;
+  }
+
+  /**
+   * Sets the side spin (english) of the ball.
+   *
+   * @param {number} value - The new side spin of the ball.
+   */
+  public set sideSpin(value: number) {
+    this._sideSpin = value;
   }
 
   /**
@@ -94,7 +134,17 @@ export class Ball {
   }
 
   /**
-   * Indicates whether the ball is currently visible on the canvas.
+   * Gets the number printed on the ball. The cue ball and the balls of games played with
+   * plain colored balls, such as blackball, have no number.
+   *
+   * @returns {number} The ball's number, or 0 if it has none.
+   */
+  public get number(): number {
+    return this._number;
+  }
+
+  /**
+   * Indicates whether the ball is currently visible on the table.
    *
    * @returns {boolean} True if the ball is visible, false otherwise.
    */
@@ -102,104 +152,313 @@ export class Ball {
     return this._visible;
   }
 
+  /**
+   * Indicates whether the ball has dropped into a pocket. The ball stays visible
+   * while it sinks, but no longer takes part in the play.
+   *
+   * @returns {boolean} True if the ball has been pocketed, false otherwise.
+   */
+  public get pocketed(): boolean {
+    return this._pocketed;
+  }
+
+  /**
+   * Gets how far the ball has sunk into its pocket, from 0 while it is on the table to 1
+   * once it has disappeared.
+   *
+   * @returns {number} The progress of the ball's drop into a pocket.
+   */
+  public get dropProgress(): number {
+    return this._dropProgress;
+  }
+
+  /**
+   * Indicates whether the ball is in play on the table, neither hidden nor pocketed.
+   *
+   * @returns {boolean} True if the ball is on the table, false otherwise.
+   */
+  public get onTable(): boolean {
+    return this._visible && !this._pocketed;
+  }
+
   //------Constructor------//
 
   /**
-   * Constructor initializes the ball with a position and color. It also resolves
-   * the appropriate sprite image based on the ball's color.
+   * Constructor initializes the ball with a position, color and number.
    *
    * @param {Vector2} _position - The initial position of the ball.
-   * @param {Color} color - The color/type of the ball (e.g., white, black, red, yellow).
+   * @param {Color} color - The color/type of the ball (e.g., white, black, red, yellow, solid, striped).
+   * @param {number} number - The number printed on the ball, or 0 if it has none.
    */
-  constructor(private _position: Vector2, color: Color) {
+  constructor(private _position: Vector2, color: Color, number: number = 0) {
     this._color = color;
-    this.resolveSprite(color); // Set the appropriate sprite based on the ball's color
+    this._number = number;
   }
 
   //------Private Methods------//
 
   /**
-   * Resolves the sprite image for the ball based on its color/type.
-   * This method assigns the correct sprite to the _sprite member variable.
+   * Checks whether the ball still has any velocity or rolling spin left.
+   * A ball with backspin and no velocity, for example, is still moving.
+   *
+   * @returns {boolean} True if the ball has velocity or rolling spin, false otherwise.
+   */
+  private hasMotion(): boolean {
+    return this._velocity.length > 0 || this._spin.length > 0;
+  }
+
+  /**
+   * Applies the cloth friction to the ball. A ball whose spin does not match its velocity
+   * slips over the cloth and feels the sliding friction; once the two match it rolls and
+   * only feels the much smaller rolling resistance. This gives the real two-phase motion:
+   * a short, sharp slowdown while sliding followed by a long, gentle one while rolling.
+   *
+   * @param {number} dt - The length of the update as a fraction of a simulation step.
+   */
+  private applyClothFriction(dt: number): void {
+    const slip: Vector2 = this._velocity.subtract(this._spin);
+
+    if (slip.length > 0) {
+      this.applySlidingFriction(slip, dt);
+    }
+    else {
+      this.applyRollingResistance(dt);
+    }
+  }
+
+  /**
+   * Applies the sliding friction to the slip between the ball's velocity and its rolling spin.
+   * Friction slows the slip down until the ball rolls naturally. For a solid sphere the velocity
+   * changes by one unit for every five-halves units of spin, so the ball ends up rolling at
+   * five-sevenths of its velocity plus two-sevenths of its spin.
+   *
+   * @param {Vector2} slip - The velocity of the ball's contact point relative to the cloth.
+   * @param {number} dt - The length of the update as a fraction of a simulation step.
+   */
+  private applySlidingFriction(slip: Vector2, dt: number): void {
+    const deceleration: number = physicsConfig.slidingFriction * physicsConfig.gravity * dt;
+    const slipLength: number = slip.length;
+
+    if (slipLength <= 3.5 * deceleration) {
+      this._velocity = this._velocity.subtract(slip.mult(2 / 7));
+      this._spin = Vector2.copy(this._velocity);
+      return;
+    }
+
+    const slipDirection: Vector2 = slip.mult(1 / slipLength);
+    this._velocity.subtractTo(slipDirection.mult(deceleration));
+    this._spin.addTo(slipDirection.mult(2.5 * deceleration));
+  }
+
+  /**
+   * Applies the rolling resistance to a naturally rolling ball, slowing its velocity
+   * and spin down together by a constant amount until the ball stops.
    *
-   * @param {Color} color - The color/type of the ball.
+   * @param {number} dt - The length of the update as a fraction of a simulation step.
    */
-  private resolveSprite(color: Color) {
-    switch (color) {
-      case Color.white:
-        this._sprite = Assets.getSprite(sprites.paths.cueBall);
-        break;
+  private applyRollingResistance(dt: number): void {
+    const deceleration: number = physicsConfig.rollingFriction * physicsConfig.gravity * dt;
+    const speed: number = this._velocity.length;
 
-      case Color.black:
-        this._sprite = Assets.getSprite(sprites.paths.blackBall);
-        break;
+    if (speed <= deceleration) {
+      this._velocity = Vector2.zero;
+    }
+    else {
+      this._velocity.multBy((speed - deceleration) / speed);
+    }
+    this._spin = Vector2.copy(this._velocity);
+  }
 
-      case Color.red:
-        this._sprite = Assets.getSprite(sprites.paths.redBall);
-        break;
+  /**
+   * Lets the cloth slowly wear off the ball's side spin.
+   *
+   * @param {number} dt - The length of the update as a fraction of a simulation step.
+   */
+  private applySideSpinFriction(dt: number): void {
+    const deceleration: number = 2.5 * physicsConfig.spinningFriction * physicsConfig.gravity * dt;
 
-      case Color.yellow:
-        this._sprite = Assets.getSprite(sprites.paths.yellowBall);
-        break;
+    if (Math.abs(this._sideSpin) <= deceleration) {
+      this._sideSpin = 0;
+    }
+    else {
+      this._sideSpin -= Math.sign(this._sideSpin) * deceleration;
     }
   }
 
   //------Public Methods------//
 
+  /**
+   * Creates a numbered ball in the group of its number: solids are numbered 1 to 7, the 8-ball
+   * is black and stripes are numbered 9 and up.
+   *
+   * @param {Vector2} position - The initial position of the ball.
+   * @param {number} number - The number printed on the ball.
+   * @returns {Ball} A new numbered ball.
+   */
+  public static numbered(position: Vector2, number: number): Ball {
+    if (number === 8) {
+      return new Ball(position, Color.black, number);
+    }
+    return new Ball(position, number < 8 ? Color.solid : Color.striped, number);
+  }
+
+  /**
+   * Creates a ball from a snapshot, moving and spinning as it was when the snapshot was taken.
+   *
+   * @param {IBallSnapshot} snapshot - The snapshot taken of the ball.
+   * @returns {Ball} A new ball in the state of the snapshot.
+   */
+  public static fromSnapshot(snapshot: IBallSnapshot): Ball {
+    const ball: Ball = new Ball(Vector2.copy(snapshot.position), snapshot.color, snapshot.number);
+
+    ball._velocity = Vector2.copy(snapshot.velocity);
+    ball._spin = Vector2.copy(snapshot.spin);
+    ball._sideSpin = snapshot.sideSpin;
+    ball._moving = snapshot.moving;
+    ball._visible = snapshot.visible;
+    ball._pocketed = snapshot.pocketed;
+    ball._dropStart = snapshot.dropStart ? Vector2.copy(snapshot.dropStart) : undefined;
+    ball._dropTarget = snapshot.dropTarget ? Vector2.copy(snapshot.dropTarget) : undefined;
+    ball._dropProgress = snapshot.dropProgress;
+
+    return ball;
+  }
+
+  /**
+   * Takes a snapshot of the ball as plain data.
+   *
+   * @returns {IBallSnapshot} The snapshot of the ball's position, motion and drop into a pocket.
+   */
+  public snapshot(): IBallSnapshot {
+    return {
+      color: this._color,
+      number: this._number,
+      position: this._position.toObject(),
+      velocity: this._velocity.toObject(),
+      spin: this._spin.toObject(),
+      sideSpin: this._sideSpin,
+      moving: this._moving,
+      visible: this._visible,
+      pocketed: this._pocketed,
+      dropStart: this._dropStart ? this._dropStart.toObject() : null,
+      dropTarget: this._dropTarget ? this._dropTarget.toObject() : null,
+      dropProgress: this._dropProgress,
+    };
+  }
+
   /**
    * Shoots the ball with a specified power and angle. This sets the ball's velocity
-   * based on the given parameters and marks the ball as moving.
+   * based on the given parameters and marks the ball as moving. The tip offset sets
+   * the spin: hitting above the centre gives follow, below gives draw and left or right
+   * gives side spin. A cue striking at height h gives the ball a surface speed of
+   * five-halves of its velocity times h over the ball's radius.
    *
    * @param {number} power - The power of the shot, affecting the ball's velocity.
    * @param {number} angle - The angle of the shot in radians, affecting the direction of the ball's velocity.
+   * @param {IVector2} tipOffset - Where the cue tip strikes the ball, x for side and y for height, each in the range -1 to 1.
    */
-  public shoot(power: number, angle: number): void {
-    this._velocity = new Vector2(power * Math.cos(angle), power * Math.sin(angle));
+  public shoot(power: number, angle: number, tipOffset: IVector2 = Vector2.zero): void {
+    const direction: Vector2 = new Vector2(Math.cos(angle), Math.sin(angle));
+    const spinFactor: number = 2.5 * stickConfig.maxTipOffset;
+
+    this._velocity = direction.mult(power);
+    this._spin = direction.mult(power * spinFactor * tipOffset.y);
+    this._sideSpin = power * spinFactor * tipOffset.x;
     this._moving = true;
   }
 
   /**
-   * Makes the ball visible on the canvas at a specified position and stops its movement.
+   * Makes the ball visible on the table at a specified position and stops its movement.
+   * A ball that was pocketed is taken back out of its pocket, at its full size.
    *
    * @param {Vector2} position - The position where the ball should be displayed.
    */
   public show(position: Vector2): void {
     this._position = position;
     this._velocity = Vector2.zero;
+    this._spin = Vector2.zero;
+    this._sideSpin = 0;
     this._visible = true;
+    this._pocketed = false;
+    this._dropStart = undefined;
+    this._dropTarget = undefined;
+    this._dropProgress = 0;
   }
 
   /**
-   * Hides the ball from the canvas and stops its movement.
+   * Hides the ball from the table and stops its movement.
    */
   public hide(): void {
     this._velocity = Vector2.zero;
+    this._spin = Vector2.zero;
+    this._sideSpin = 0;
     this._moving = false;
     this._visible = false;
   }
 
   /**
-   * Updates the ball's position based on its velocity and the game's physics settings.
-   * If the ball's velocity drops below a certain threshold, it stops moving.
+   * Drops the ball into a pocket. The ball stops rolling and starts sinking towards the
+   * centre of the pocket, and stays moving until it has disappeared.
+   *
+   * @param {Vector2} pocketPosition - The centre of the pocket the ball dropped into.
    */
-  public update(): void {
-    if (this._moving) {
-      this._velocity.multBy(1 - physicsConfig.friction); // Apply friction to reduce velocity
-      this._position.addTo(this._velocity); // Update the ball's position based on its velocity
+  public pocket(pocketPosition: Vector2): void {
+    this._velocity = Vector2.zero;
+    this._spin = Vector2.zero;
+    this._sideSpin = 0;
+    this._pocketed = true;
+    this._dropStart = Vector2.copy(this._position);
+    this._dropTarget = Vector2.copy(pocketPosition);
+    this._dropProgress = 0;
+    this._moving = true;
+  }
 
-      if (this._velocity.length < ballConfig.minVelocityLength) {
-        this.velocity = Vector2.zero; // Stop the ball if its velocity is too low
+  /**
+   * Advances the animation of a pocketed ball sinking into its pocket, which lasts the
+   * configured time to hide a ball after it is pocketed. The ball is hidden once it has sunk.
+   *
+   * @param {number} dt - The length of the update as a fraction of a simulation step.
+   */
+  public updateDrop(dt: number): void {
+    if (this._pocketed && this._visible) {
+      this._dropProgress = Math.min(1, this._dropProgress + dt * physicsConfig.timestep / GameConfig.timeoutToHideBallAfterPocket);
+      this._position = this._dropStart.add(this._dropTarget.subtract(this._dropStart).mult(this._dropProgress));
+
+      if (this._dropProgress === 1) {
+        this.hide();
+      }
+    }
+  }
+
+  /**
+   * Applies the cloth friction to the ball's velocity and spin based on the game's physics settings.
+   * If both the ball's velocity and its spin drop below a certain threshold, it stops moving.
+   *
+   * @param {number} dt - The length of the update as a fraction of a simulation step.
+   */
+  public applyFriction(dt: number): void {
+    if (this._moving && !this._pocketed) {
+      this.applyClothFriction(dt); // Slide or roll, turning slip between velocity and spin into draw or follow
+      this.applySideSpinFriction(dt); // Wear off the side spin
+
+      if (this._velocity.length < ballConfig.minVelocityLength && this._spin.length < ballConfig.minVelocityLength) {
+        this._velocity = Vector2.zero; // Stop the ball if its velocity and spin are too low
+        this._spin = Vector2.zero;
+        this._sideSpin = 0;
         this._moving = false;
       }
     }
   }
 
   /**
-   * Draws the ball on the canvas at its current position if it is visible.
+   * Moves the ball along its current velocity. The velocity does not change during the move,
+   * so the simulation can split a step at the moments balls collide.
+   *
+   * @param {number} dt - The length of the move as a fraction of a simulation step.
    */
-  public draw(): void {
-    if (this._visible) {
-      Canvas2D.drawImage(this._sprite, this._position, 0, ballConfig.origin);
+  public move(dt: number): void {
+    if (this._moving && !this._pocketed) {
+      this._position.addTo(this._velocity.mult(dt)); // Update the ball's position based on its velocity
     }
   }
 }
@@ -0,0 +1,29 @@
+/**
+ * GameEventType
+ *
+ * This enum defines the events the game world reports while a shot plays out. The simulation
+ * itself has no sound or visuals, so the game picks these events up and plays the matching
+ * effects, while a headless simulation can simply ignore them.
+ */
+export enum GameEventType {
+  /**
+   * Strike
+   *
+   * The cue stick struck the cue ball.
+   */
+  Strike,
+
+  /**
+   * BallsCollide
+   *
+   * A ball hit another ball, or rattled against the back of a pocket.
+   */
+  BallsCollide,
+
+  /**
+   * BallPocketed
+   *
+   * A ball dropped into a pocket.
+   */
+  BallPocketed
+}
@@ -0,0 +1,12 @@
+import { GameEventType } from './game-event-type';
+
+/**
+ * IGameEvent
+ *
+ * This interface describes an event reported by the game world, such as a collision,
+ * together with how strong it was.
+ */
+export interface IGameEvent {
+  type: GameEventType; // What happened
+  intensity: number;   // How strong the event was, from 0 to 1, for example the volume of its sound
+}
@@ -0,0 +1,45 @@
+/**
+ * GameMode
+ *
+ * This enum defines the pool games that can be played. The game mode decides how the
+ * balls are racked and which balls each player has to pocket.
+ */
+export enum GameMode {
+  /**
+   * Blackball
+   *
+   * Two groups of seven red and yellow balls and the black, as played on UK pub tables.
+   */
+  Blackball,
+
+  /**
+   * EightBall
+   *
+   * American 8-ball, with the solids numbered 1 to 7, the stripes numbered 9 to 15 and the 8-ball.
+   */
+  EightBall,
+
+  /**
+   * NineBall
+   *
+   * 9-ball, with the balls numbered 1 to 9 shared by the players, who always have to hit the lowest
+   * ball on the table first and win by pocketing the 9.
+   */
+  NineBall,
+
+  /**
+   * StraightPool
+   *
+   * Straight pool, or 14.1 continuous, with the fifteen numbered balls shared by the players, who call
+   * every shot, score a point for each ball and have the balls re-racked until one reaches the target score.
+   */
+  StraightPool,
+
+  /**
+   * Snooker
+   *
+   * Snooker, with 15 reds and six colours on their spots shared by the players, who pot a red then a colour
+   * while reds remain, then the colours in order, and win the frame on points.
+   */
+  Snooker
+}
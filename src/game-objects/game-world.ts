@@ -1,39 +1,60 @@
-import { IInputConfig, IBallConfig, ITableConfig, IVector2, IPhysicsConfig, IAssetsConfig, ILabelsConfig, IMatchScoreConfig, IAIConfig } from './../game.config.type';
+import { IBallConfig, ITableConfig, IVector2, IPhysicsConfig, IStickConfig, IAIConfig } from './../game.config.type';
 import { AI } from './../ai/ai-trainer';
 import { mapRange } from '../common/helper';
-import { Referee } from './referee';
 import { Player } from './player';
 import { Stick } from './stick';
 import { Color } from '../common/color';
 import { Vector2 } from '../physics/vector2';
 import { GameConfig } from '../game.config';
-import { Assets } from '../assets';
-import { Canvas2D } from '../canvas';
 import { Ball } from './ball';
-import { Mouse } from '../input/mouse';
 import { State } from './state';
+import { GameEventType } from './game-event-type';
+import { IGameEvent } from './game-event';
+import { GameMode } from './game-mode';
+import { IRuleSet } from '../rules/rule-set';
+import { IVerdict } from '../rules/verdict';
+import { FoulType } from '../rules/foul-type';
+import { BallInHandZone } from '../rules/ball-in-hand-zone';
+import { TurnPhase } from './turn-phase';
+import { IBallSnapshot, IPlayerSnapshot, ITurnSnapshot, IWorldSnapshot } from './world-snapshot';
+import { circlesTimeOfImpact, segmentTimeOfImpact, ISegmentImpact } from '../physics/time-of-impact';
 
 //------Configurations------//
 
 // Load configurations from the game configuration
 const physicsConfig: IPhysicsConfig = GameConfig.physics;
-const inputConfig: IInputConfig = GameConfig.input;
 const ballConfig: IBallConfig = GameConfig.ball;
-const tableConfig: ITableConfig = GameConfig.table;
-const labelsConfig: ILabelsConfig = GameConfig.labels;
-const matchScoreConfig: IMatchScoreConfig = GameConfig.matchScore;
+const stickConfig: IStickConfig = GameConfig.stick;
 const aiConfig: IAIConfig = GameConfig.ai;
-const gameSize: IVector2 = GameConfig.gameSize;
-const sprites: IAssetsConfig = GameConfig.sprites;
-const sounds: IAssetsConfig = GameConfig.sounds;
+
+/**
+ * One straight piece of a cushion outline, either along the cushion's nose or across a pocket jaw.
+ */
+interface ICushionSegment {
+  start: Vector2;
+  end: Vector2;
+}
+
+/**
+ * A collision found while sweeping the balls through a sub-step. It involves either two
+ * balls, or one ball and the cushion with the given normal.
+ */
+interface IImpact {
+  time: number;      // Time until the collision, as a fraction of a simulation step
+  first: Ball;       // The first ball involved in the collision
+  second?: Ball;     // The second ball, for a collision between two balls
+  normal?: Vector2;  // The cushion's normal, for a collision with a cushion
+}
 
 /**
  * GameWorld
  *
  * This class represents the entire game world and is responsible for managing the game's state.
- * It handles the initialization of the match, player turns, ball movements, collisions, scoring,
- * and rendering of the game elements on the canvas. The GameWorld class integrates the physics,
- * input, AI, and game rules to provide a seamless gameplay experience.
+ * It handles the initialization of the match, player turns, ball movements, collisions and scoring.
+ * The GameWorld class integrates the physics, AI, and game rules, but knows nothing of the browser:
+ * the PlayerController feeds it the player's input, the GameWorldRenderer draws it, and the sounds
+ * of the events it reports are played by the game. A game world can therefore be simulated on its
+ * own, for example in a Node script.
  */
 export class GameWorld {
 
@@ -41,12 +62,15 @@ export class GameWorld {
 
   private _stick: Stick;                  // The cue stick used by the player
   private _cueBall: Ball;                 // The cue ball in the game
-  private _8Ball: Ball;                   // The eight ball in the game
   private _balls: Ball[];                 // Array of all balls in the game
   private _players: Player[] = [new Player(), new Player()];  // Array of players (two-player game)
   private _currentPlayerIndex = 0;        // Index of the current player in the _players array
   private _turnState: State;              // The state of the current turn
-  private _referee: Referee;              // The referee that enforces game rules
+  private _turnPhase: TurnPhase;          // The phase of the current turn, such as the break or a push-out decision
+  private _lastVerdict: IVerdict = { fouls: [] }; // The verdict on the previous turn, kept to show its fouls
+  private _cushionSegments: ICushionSegment[] = this.getCushionSegments(); // The cushion and jaw segments balls bounce off
+  private _events: IGameEvent[] = [];     // Events reported since they were last taken, such as collisions
+  private _shotsTaken: number = 0;        // Number of shots taken since the game world was created
 
   //------Properties------//
 
@@ -68,6 +92,43 @@ export class GameWorld {
     return this._players[(this._currentPlayerIndex + 1) % this._players.length];
   }
 
+  /**
+   * Gets both players of the match.
+   *
+   * @returns {Player[]} The players, in turn order.
+   */
+  public get players(): Player[] {
+    return this._players;
+  }
+
+  /**
+   * Gets the index of the current player in the players array.
+   *
+   * @returns {number} The index of the current player.
+   */
+  public get currentPlayerIndex(): number {
+    return this._currentPlayerIndex;
+  }
+
+  /**
+   * Gets the cue stick, so the player's input can aim and power it.
+   *
+   * @returns {Stick} The cue stick.
+   */
+  public get stick(): Stick {
+    return this._stick;
+  }
+
+  /**
+   * Gets the number of shots taken since the game world was created, across all its matches.
+   * Together with the random seed it identifies a moment in a game that can be replayed.
+   *
+   * @returns {number} The number of shots taken.
+   */
+  public get shotsTaken(): number {
+    return this._shotsTaken;
+  }
+
   /**
    * Gets the array of all balls currently in play.
    *
@@ -86,6 +147,15 @@ export class GameWorld {
     return this._turnState.ballInHand;
   }
 
+  /**
+   * Gets the zone the cue ball in hand may be placed in, which for the kitchen also bounds the shot that follows.
+   *
+   * @returns {BallInHandZone} The zone of the cue ball in hand.
+   */
+  public get ballInHandZone(): BallInHandZone {
+    return this._turnState.ballInHandZone;
+  }
+
   /**
    * Checks whether the current turn is valid according to the game rules.
    *
@@ -96,12 +166,113 @@ export class GameWorld {
   }
 
   /**
-   * Checks whether the game is over based on the current game state.
+   * Gets the verdict of the rule set on the current turn, once it is concluded.
+   *
+   * @returns {IVerdict} The verdict listing the fouls of the turn.
+   */
+  public get verdict(): IVerdict {
+    return this._turnState.verdict;
+  }
+
+  /**
+   * Gets the verdict on the previous turn, so its fouls can be shown while the next turn is played.
+   *
+   * @returns {IVerdict} The verdict listing the fouls of the previous turn.
+   */
+  public get lastVerdict(): IVerdict {
+    return this._lastVerdict;
+  }
+
+  /**
+   * Gets the phase of the current turn.
+   *
+   * @returns {TurnPhase} The phase of the current turn.
+   */
+  public get turnPhase(): TurnPhase {
+    return this._turnPhase;
+  }
+
+  /**
+   * Checks whether the current player has to decide how play goes on, after the opponent's
+   * push-out or illegal break, before any shot can be taken.
+   *
+   * @returns {boolean} True if a decision is pending, false otherwise.
+   */
+  public get isDecisionPending(): boolean {
+    return this._turnPhase === TurnPhase.PushOutDecision || this._turnPhase === TurnPhase.BreakDecision;
+  }
+
+  /**
+   * Checks whether the current shot is declared a push-out.
+   *
+   * @returns {boolean} True if the shot is a push-out, false otherwise.
+   */
+  public get isPushOut(): boolean {
+    return this._turnState.pushOut;
+  }
+
+  /**
+   * Checks whether the current player has to call the ball and the pocket of their shot before taking it.
+   *
+   * @returns {boolean} True if the shot has to be called, false otherwise.
+   */
+  public get isCallRequired(): boolean {
+    return this._ruleSet.isCallRequired(this.currentPlayer, this._turnState);
+  }
+
+  /**
+   * Checks whether the current player still has to call a ball or a pocket before taking their shot.
+   *
+   * @returns {boolean} True if the call is not complete yet, false otherwise.
+   */
+  public get isCallPending(): boolean {
+    return this.isCallRequired && (!this._turnState.calledBall || this._turnState.calledPocket === null);
+  }
+
+  /**
+   * Gets the ball called for the current shot.
+   *
+   * @returns {Ball} The called ball, or null if no ball is called.
+   */
+  public get calledBall(): Ball {
+    return this._turnState.calledBall;
+  }
+
+  /**
+   * Gets the pocket called for the current shot.
+   *
+   * @returns {number} The index of the called pocket in the table's pocket positions, or null if no pocket is called.
+   */
+  public get calledPocket(): number {
+    return this._turnState.calledPocket;
+  }
+
+  /**
+   * Checks whether the game is over based on the current game state, either by the rules of the game
+   * or because the current player fouled too many times in a row.
    *
    * @returns {boolean} True if the game is over, false otherwise.
    */
   public get isGameOver(): boolean {
-    return this._referee.isGameOver(this.currentPlayer, this._cueBall, this._8Ball);
+    return this._ruleSet.isGameOver(this.currentPlayer, this._turnState) || this.isLostOnFouls();
+  }
+
+  /**
+   * Gets the points still to be scored from the balls on the table, in games scored by points.
+   *
+   * @returns {number} The points remaining.
+   */
+  public get pointsRemaining(): number {
+    return this._ruleSet.getPointsRemaining(this._balls);
+  }
+
+  /**
+   * Gets the object balls the current player may hit first with their shot.
+   *
+   * @returns {Ball[]} The balls the current player is on.
+   */
+  public get ballsOn(): Ball[] {
+    return this._ruleSet.getBallsOn(this.currentPlayer, this._balls);
   }
 
   /**
@@ -122,409 +293,785 @@ export class GameWorld {
     return this._turnState.pocketedBalls.length;
   }
 
-  //------Constructor------//
+  /**
+   * Gets the balls that were pocketed during the current turn, in the order they dropped.
+   *
+   * @returns {Ball[]} The pocketed balls.
+   */
+  public get pocketedBallsOnTurn(): Ball[] {
+    return this._turnState.pocketedBalls;
+  }
 
   /**
-   * Constructs an instance of the GameWorld class and initializes a new match.
+   * Gets the table the game is played on, which the rules choose.
+   *
+   * @returns {ITableConfig} The size, cushions and pockets of the table.
    */
-  constructor() {
-    this.initMatch();
+  public get table(): ITableConfig {
+    return this._ruleSet.table;
   }
 
-  //------Private Methods------//
+  /**
+   * Gets where the rules start the cue ball, and put it back once it has been pocketed.
+   *
+   * @returns {IVector2} The starting position of the cue ball.
+   */
+  public get cueBallPosition(): IVector2 {
+    return this._ruleSet.cueBallPosition;
+  }
 
   /**
-   * Retrieves all balls of a specific color from the game.
+   * Gets the game mode the game world is played under.
    *
-   * @param {Color} color - The color of the balls to retrieve.
-   * @returns {Ball[]} An array of balls matching the specified color.
+   * @returns {GameMode} The game mode of the rule set.
    */
-  private getBallsByColor(color: Color): Ball[] {
-    return this._balls.filter((ball: Ball) => ball.color === color);
+  public get gameMode(): GameMode {
+    return this._ruleSet.gameMode;
   }
 
+  //------Constructor------//
+
   /**
-   * Handles player input for shooting the cue ball.
-   * If the AI session is finished and the player clicks the mouse, the cue ball is shot.
+   * Constructs an instance of the GameWorld class and initializes a new match, or restores a snapshot
+   * taken of a game played under the same rules.
+   *
+   * @param {IRuleSet} _ruleSet - The rules of the game to play, which rack the balls and referee the shots.
+   * @param {IWorldSnapshot} snapshot - The snapshot to restore, if the game world copies another one.
    */
-  private handleInput(): void {
-    if (AI.finishedSession && Mouse.isPressed(inputConfig.mouseShootButton)) {
-      this.shootCueBall(this._stick.power, this._stick.rotation);
+  constructor(private _ruleSet: IRuleSet, snapshot?: IWorldSnapshot) {
+    if (snapshot) {
+      this.restore(snapshot);
+    }
+    else {
+      this.initMatch();
     }
   }
 
+  //------Private Methods------//
+
   /**
-   * Checks whether a ball's position is outside the top border of the table.
+   * Reports an event, such as a collision, for the game to play its sound.
    *
-   * @param {Vector2} position - The position of the ball to check.
-   * @returns {boolean} True if the ball is outside the top border, false otherwise.
+   * @param {GameEventType} type - What happened.
+   * @param {number} intensity - How strong the event was, from 0 to 1.
    */
-  private isBallPosOutsideTopBorder(position: Vector2): boolean {
-    const topBallEdge: number = position.y - ballConfig.diameter / 2;
-    return topBallEdge <= tableConfig.cushionWidth;
+  private reportEvent(type: GameEventType, intensity: number): void {
+    this._events.push({ type, intensity });
   }
 
   /**
-   * Checks whether a ball's position is outside the left border of the table.
+   * Checks whether a ball at the given position lies wholly on the bed of the table,
+   * between the noses of the four long cushions.
    *
    * @param {Vector2} position - The position of the ball to check.
-   * @returns {boolean} True if the ball is outside the left border, false otherwise.
+   * @returns {boolean} True if the ball is on the bed, false if it overlaps a cushion line.
    */
-  private isBallPosOutsideLeftBorder(position: Vector2): boolean {
-    const leftBallEdge: number = position.x - ballConfig.diameter / 2;
-    return leftBallEdge <= tableConfig.cushionWidth;
+  private isBallPosOnBed(position: Vector2): boolean {
+    const radius: number = ballConfig.diameter / 2;
+
+    return position.x - radius > this.table.cushionWidth &&
+      position.x + radius < this.table.size.x - this.table.cushionWidth &&
+      position.y - radius > this.table.cushionWidth &&
+      position.y + radius < this.table.size.y - this.table.cushionWidth;
   }
 
   /**
-   * Checks whether a ball's position is outside the right border of the table.
+   * Gets the segments of every cushion outline in the table configuration,
+   * including the angled jaws at the pocket mouths.
    *
-   * @param {Vector2} position - The position of the ball to check.
-   * @returns {boolean} True if the ball is outside the right border, false otherwise.
+   * @returns {ICushionSegment[]} The segments balls bounce off.
    */
-  private isBallPosOutsideRightBorder(position: Vector2): boolean {
-    const rightBallEdge: number = position.x + ballConfig.diameter / 2;
-    return rightBallEdge >= gameSize.x - tableConfig.cushionWidth;
+  private getCushionSegments(): ICushionSegment[] {
+    const segments: ICushionSegment[] = [];
+
+    this.table.cushions.forEach((outline: IVector2[]) => {
+      for (let i = 1; i < outline.length; i++) {
+        segments.push({ start: Vector2.copy(outline[i - 1]), end: Vector2.copy(outline[i]) });
+      }
+    });
+
+    return segments;
   }
 
   /**
-   * Checks whether a ball's position is outside the bottom border of the table.
+   * Gets the cushion segments whose bounding boxes come within the given distance of a position,
+   * which are the only ones a ball there can reach in the time left.
    *
-   * @param {Vector2} position - The position of the ball to check.
-   * @returns {boolean} True if the ball is outside the bottom border, false otherwise.
+   * @param {Vector2} position - The position of the ball.
+   * @param {number} distance - How far the ball's edge can travel in the time left, including its radius.
+   * @returns {ICushionSegment[]} The cushion segments within reach.
    */
-  private isBallPosOutsideBottomBorder(position: Vector2): boolean {
-    const bottomBallEdge: number = position.y + ballConfig.diameter / 2;
-    return bottomBallEdge >= gameSize.y - tableConfig.cushionWidth;
+  private getCushionSegmentsWithinReach(position: Vector2, distance: number): ICushionSegment[] {
+    return this._cushionSegments.filter((cushion: ICushionSegment) =>
+      position.x >= Math.min(cushion.start.x, cushion.end.x) - distance &&
+      position.x <= Math.max(cushion.start.x, cushion.end.x) + distance &&
+      position.y >= Math.min(cushion.start.y, cushion.end.y) - distance &&
+      position.y <= Math.max(cushion.start.y, cushion.end.y) + distance
+    );
   }
 
   /**
-   * Handles the collision of a ball with the top cushion, reversing its velocity
-   * and repositioning it inside the table boundaries.
+   * Finds the earliest impact between two balls, or between a ball and a cushion, that happens
+   * within the given time, assuming every ball keeps its current velocity until then.
    *
-   * @param {Ball} ball - The ball that collided with the top cushion.
+   * @param {number} maxTime - The time left in the current sub-step.
+   * @returns {IImpact | null} The earliest impact, or null if nothing collides in time.
    */
-  private handleCollisionWithTopCushion(ball: Ball): void {
-    ball.position = ball.position.addY(tableConfig.cushionWidth - ball.position.y + ballConfig.diameter / 2);
-    ball.velocity = new Vector2(ball.velocity.x, -ball.velocity.y);
+  private findEarliestImpact(maxTime: number): IImpact | null {
+    const balls: Ball[] = this._balls.filter((ball: Ball) => ball.onTable);
+    const reaches: number[] = balls.map((ball: Ball) => ball.velocity.length * maxTime);
+    const radius: number = ballConfig.diameter / 2;
+    let earliest: IImpact | null = null;
+
+    for (let i = 0; i < balls.length; i++) {
+      const first: Ball = balls[i];
+      const position: Vector2 = first.position;
+
+      for (const cushion of this.getCushionSegmentsWithinReach(position, radius + reaches[i])) {
+        const contact: ISegmentImpact | null = segmentTimeOfImpact(
+          position, first.velocity, cushion.start, cushion.end, radius
+        );
+        if (contact !== null && contact.time <= maxTime && (!earliest || contact.time < earliest.time)) {
+          earliest = { time: contact.time, first, normal: contact.normal };
+        }
+      }
+
+      for (let j = i + 1; j < balls.length; j++) {
+        const second: Ball = balls[j];
+        if (position.distFrom(second.position) > ballConfig.diameter + reaches[i] + reaches[j]) {
+          continue; // Too far apart to meet within the time left
+        }
+
+        const time: number | null = circlesTimeOfImpact(
+          position, first.velocity, second.position, second.velocity, ballConfig.diameter
+        );
+        if (time !== null && time <= maxTime && (!earliest || time < earliest.time)) {
+          earliest = { time, first, second };
+        }
+      }
+    }
+
+    return earliest;
   }
 
   /**
-   * Handles the collision of a ball with the left cushion, reversing its velocity
-   * and repositioning it inside the table boundaries.
+   * Gets the cushion's coefficient of restitution for a ball hitting it at the given speed.
+   * The rubber gives back most of a soft hit but absorbs more of a hard one.
    *
-   * @param {Ball} ball - The ball that collided with the left cushion.
+   * @param {number} normalSpeed - The speed of the ball straight into the cushion.
+   * @returns {number} The share of the normal speed the ball keeps after the bounce.
    */
-  private handleCollisionWithLeftCushion(ball: Ball): void {
-    ball.position = ball.position.addX(tableConfig.cushionWidth - ball.position.x + ballConfig.diameter / 2);
-    ball.velocity = new Vector2(-ball.velocity.x, ball.velocity.y);
+  private getCushionRestitution(normalSpeed: number): number {
+    const share: number = mapRange(normalSpeed, 0, physicsConfig.cushionRestitutionSpeed, 0, 1);
+    return physicsConfig.cushionRestitutionSlow + share * (physicsConfig.cushionRestitutionFast - physicsConfig.cushionRestitutionSlow);
   }
 
   /**
-   * Handles the collision of a ball with the right cushion, reversing its velocity
-   * and repositioning it inside the table boundaries.
+   * Resolves the collision of a ball with a cushion. The speed into the cushion bounces back
+   * according to the cushion's restitution at that speed. Along the cushion, the rubber grips
+   * the ball where it slips: the slip comes from the ball's speed along the cushion and its side
+   * spin, and the grip is limited by the friction times the push of the bounce. A steep hit
+   * pushes hard and a shallow one barely, so banks and kicks change with the angle, and side
+   * spin bends the rebound, with right english sending the ball further to the shooter's right.
+   * The rolling spin into the cushion bounces back with the ball, so a rolling ball leaves rolling.
    *
-   * @param {Ball} ball - The ball that collided with the right cushion.
+   * @param {Ball} ball - The ball that collided with the cushion.
+   * @param {Vector2} normal - The unit normal of the contact, pointing from the cushion towards the ball.
    */
-  private handleCollisionWithRightCushion(ball: Ball): void {
-    ball.position = ball.position.addX(gameSize.x - tableConfig.cushionWidth - ball.position.x - ballConfig.diameter / 2);
-    ball.velocity = new Vector2(-ball.velocity.x, ball.velocity.y);
+  private resolveBallCollisionWithCushion(ball: Ball, normal: Vector2): void {
+    const tangent: Vector2 = new Vector2(normal.y, -normal.x);
+    const velocity: Vector2 = ball.velocity;
+    const spin: Vector2 = ball.spin;
+
+    const normalSpeed: number = Math.max(0, -normal.dot(velocity));
+    const restitution: number = this.getCushionRestitution(normalSpeed);
+    const normalImpulse: number = (1 + restitution) * normalSpeed;
+
+    // Grip along the cushion, at most enough to stop the contact point slipping
+    const slip: number = tangent.dot(velocity) - ball.sideSpin;
+    const grip: number = Math.min(physicsConfig.cushionFriction * normalImpulse, 2 / 7 * Math.abs(slip));
+    const tangentialImpulse: number = -Math.sign(slip) * grip;
+
+    ball.velocity = velocity
+      .add(normal.mult(normalImpulse))
+      .add(tangent.mult(tangentialImpulse));
+    ball.spin = spin.subtract(normal.mult((1 + restitution) * normal.dot(spin)));
+    ball.sideSpin -= 2.5 * tangentialImpulse;
   }
 
   /**
-   * Handles the collision of a ball with the bottom cushion, reversing its velocity
-   * and repositioning it inside the table boundaries.
+   * Gets the coefficient of friction between two balls sliding against each other at their contact.
+   * Polished balls grip best when their surfaces barely slip and worst when they rub past quickly,
+   * so the coefficient is blended from its slow value to its fast value as the slip speeds up.
    *
-   * @param {Ball} ball - The ball that collided with the bottom cushion.
+   * @param {number} slipSpeed - The speed at which the surfaces slip past each other at the contact.
+   * @returns {number} The coefficient of friction between the balls.
    */
-  private handleCollisionWithBottomCushion(ball: Ball): void {
-    ball.position = ball.position.addY(gameSize.y - tableConfig.cushionWidth - ball.position.y - ballConfig.diameter / 2);
-    ball.velocity = new Vector2(ball.velocity.x, -ball.velocity.y);
+  private getBallsFriction(slipSpeed: number): number {
+    const share: number = mapRange(slipSpeed, 0, physicsConfig.ballFrictionSpeed, 0, 1);
+    return physicsConfig.ballFrictionSlow + share * (physicsConfig.ballFrictionFast - physicsConfig.ballFrictionSlow);
   }
 
   /**
-   * Resolves the collision of a ball with any of the table cushions.
-   * If a collision is detected, the ball's velocity is adjusted to account for energy loss.
+   * Resolves the collision between two touching balls, adjusting their velocities accordingly.
+   * Along the line of centres the balls push each other apart with the configured restitution,
+   * which for equal balls shares the closing speed between them. Across it, the surfaces rub at
+   * the contact and friction throws the object ball off the line of centres, in the direction the
+   * cue ball slides across it. Throw is largest on soft cut shots and with side spin that makes the
+   * surfaces slip, and smallest when the balls rub past quickly or follow or draw spins the contact
+   * up or down. Friction also turns side spin into throw and throw into side spin. Each ball keeps
+   * its own rolling spin, so a cue ball with draw or follow slides off the contact and then bends
+   * backwards or forwards.
    *
-   * @param {Ball} ball - The ball to check and handle collisions for.
+   * @param {Ball} first - The first ball involved in the collision.
+   * @param {Ball} second - The second ball involved in the collision.
    */
-  private resolveBallCollisionWithCushion(ball: Ball): void {
+  private resolveBallsCollision(first: Ball, second: Ball): void {
+    const offset: Vector2 = first.position.subtract(second.position);
+    const normal: Vector2 = offset.mult(1 / offset.length); // From the second ball towards the first
+    const tangent: Vector2 = new Vector2(normal.y, -normal.x);
+
+    const closingSpeed: number = Math.max(0, -normal.dot(first.velocity.subtract(second.velocity)));
+    const normalImpulse: number = (1 + physicsConfig.ballRestitution) / 2 * closingSpeed;
+
+    // Slip of the surfaces at the contact: sideways from the velocities and side spins,
+    // and up or down from the rolling spins
+    const sideSlip: number = tangent.dot(first.velocity.subtract(second.velocity)) - first.sideSpin - second.sideSpin;
+    const verticalSlip: number = normal.dot(first.spin.add(second.spin));
+    const slipSpeed: number = Math.hypot(sideSlip, verticalSlip);
+
+    // Friction against the slip, at most enough to stop the surfaces slipping
+    let tangentialImpulse: number = 0;
+    if (slipSpeed > 0) {
+      const friction: number = Math.min(this.getBallsFriction(slipSpeed) * normalImpulse, slipSpeed / 7);
+      tangentialImpulse = -friction * sideSlip / slipSpeed;
+    }
 
-    let collided: boolean = false;
+    first.velocity = first.velocity
+      .add(normal.mult(normalImpulse))
+      .add(tangent.mult(tangentialImpulse));
+    second.velocity = second.velocity
+      .subtract(normal.mult(normalImpulse))
+      .subtract(tangent.mult(tangentialImpulse));
 
-    if (this.isBallPosOutsideTopBorder(ball.nextPosition)) {
-      this.handleCollisionWithTopCushion(ball);
-      collided = true;
-    }
-    if (this.isBallPosOutsideLeftBorder(ball.nextPosition)) {
-      this.handleCollisionWithLeftCushion(ball);
-      collided = true;
-    }
-    if (this.isBallPosOutsideRightBorder(ball.nextPosition)) {
-      this.handleCollisionWithRightCushion(ball);
-      collided = true;
-    }
-    if (this.isBallPosOutsideBottomBorder(ball.nextPosition)) {
-      this.handleCollisionWithBottomCushion(ball);
-      collided = true;
-    }
+    first.sideSpin -= 2.5 * tangentialImpulse;
+    second.sideSpin -= 2.5 * tangentialImpulse;
+  }
 
-    if (collided) {
-      ball.velocity = ball.velocity.mult(1 - physicsConfig.collisionLoss);
+  /**
+   * Handles a collision of a ball with a cushion: resolves it and records the contact
+   * if the cue ball has already touched a ball on the turn.
+   *
+   * @param {Ball} ball - The ball that collided with the cushion.
+   * @param {Vector2} normal - The unit normal of the contact, pointing from the cushion towards the ball.
+   */
+  private handleBallCollisionWithCushion(ball: Ball, normal: Vector2): void {
+    this.resolveBallCollisionWithCushion(ball, normal);
+
+    if (this._turnState.firstCollidedBall) {
+      this._turnState.cushionContacts.push(ball);
     }
   }
 
   /**
-   * Resolves the collision between two balls, adjusting their positions and velocities accordingly.
+   * Handles a collision between two balls: resolves it, plays a sound effect and records
+   * the first ball the cue ball touched during the turn.
    *
    * @param {Ball} first - The first ball involved in the collision.
    * @param {Ball} second - The second ball involved in the collision.
-   * @returns {boolean} True if a collision occurred, false otherwise.
    */
-  private resolveBallsCollision(first: Ball, second: Ball): boolean {
+  private handleBallsCollision(first: Ball, second: Ball): void {
+    this.resolveBallsCollision(first, second);
 
-    if (!first.visible || !second.visible) {
-      return false;
+    const force: number = first.velocity.length + second.velocity.length;
+    const intensity: number = mapRange(force, 0, ballConfig.maxExpectedCollisionForce, 0, 1);
+    this.reportEvent(GameEventType.BallsCollide, intensity);
+
+    if (!this._turnState.firstCollidedBall) {
+      const ball: Ball = first.color === Color.white ? second : first;
+      this._turnState.firstCollidedBall = ball;
+      this._turnState.firstCollidedBallColor = ball.color;
     }
+  }
 
-    // Find a normal vector
-    const n: Vector2 = first.position.subtract(second.position);
+  /**
+   * Moves the balls through a sub-step, handling every collision at the moment it happens.
+   * The balls are swept forward to the earliest impact, the impact is resolved, and the search
+   * repeats for the rest of the sub-step. Impacts are therefore handled in the order they occur,
+   * and a fast ball can never pass through another ball or a cushion between two positions.
+   *
+   * @param {number} dt - The length of the sub-step as a fraction of a simulation step.
+   */
+  private moveBalls(dt: number): void {
+    let remaining: number = dt;
 
-    // Find distance
-    const dist: number = n.length;
+    for (let impacts = 0; remaining > 0 && impacts < physicsConfig.maxImpactsPerSubStep; impacts++) {
+      const impact: IImpact | null = this.findEarliestImpact(remaining);
+      if (!impact) {
+        break;
+      }
+
+      this._balls.forEach((ball: Ball) => ball.move(impact.time));
+      remaining -= impact.time;
 
-    if (dist > ballConfig.diameter) {
-      return false;
+      if (impact.second) {
+        this.handleBallsCollision(impact.first, impact.second);
+      }
+      else {
+        this.handleBallCollisionWithCushion(impact.first, impact.normal);
+      }
     }
 
-    // Find minimum translation distance
-    const mtd = n.mult((ballConfig.diameter - dist) / dist);
+    this._balls.forEach((ball: Ball) => ball.move(remaining));
+  }
 
-    // Push-pull balls apart
-    first.position = first.position.add(mtd.mult(0.5));
-    second.position = second.position.subtract(mtd.mult(0.5));
+  /**
+   * Finds the index of the pocket whose mouth contains a given position.
+   *
+   * @param {Vector2} position - The position to check.
+   * @returns {number} The index of the pocket in the table's pocket positions, or -1 if the position is not in a pocket mouth.
+   */
+  private getPocketIndexAt(position: Vector2): number {
+    return this.table.pocketsPositions
+      .findIndex((pocketPos: IVector2) => position.distFrom(Vector2.copy(pocketPos)) <= this.table.pocketMouthRadius);
+  }
 
-    // Find unit normal vector
-    const un = n.mult(1 / n.length);
+  /**
+   * Finds the pocket whose mouth contains a given position.
+   *
+   * @param {Vector2} position - The position to check.
+   * @returns {Vector2 | null} The centre of the pocket, or null if the position is not in a pocket mouth.
+   */
+  private getPocketAt(position: Vector2): Vector2 | null {
+    const index: number = this.getPocketIndexAt(position);
 
-    // Find unit tangent vector
-    const ut = new Vector2(-un.y, un.x);
+    return index >= 0 ? Vector2.copy(this.table.pocketsPositions[index]) : null;
+  }
+
+  /**
+   * Checks if a given ball position is inside the mouth of one of the table's pockets.
+   *
+   * @param {Vector2} position - The position of the ball to check.
+   * @returns {boolean} True if the ball is inside a pocket, false otherwise.
+   */
+  private isInsidePocket(position: Vector2): boolean {
+    return this.getPocketAt(position) !== null;
+  }
 
-    // Project velocities onto the unit normal and unit tangent vectors
-    const v1n: number = un.dot(first.velocity);
-    const v1t: number = ut.dot(first.velocity);
-    const v2n: number = un.dot(second.velocity);
-    const v2t: number = ut.dot(second.velocity);
+  /**
+   * Checks whether a position lies beyond the noses of the cushions, where a ball's centre
+   * can only be once it has entered a pocket.
+   *
+   * @param {Vector2} position - The position to check.
+   * @returns {boolean} True if the position is off the bed of the table, false otherwise.
+   */
+  private isOffBed(position: Vector2): boolean {
+    return position.x < this.table.cushionWidth ||
+      position.x > this.table.size.x - this.table.cushionWidth ||
+      position.y < this.table.cushionWidth ||
+      position.y > this.table.size.y - this.table.cushionWidth;
+  }
 
-    // Convert the scalar normal and tangential velocities into vectors
-    const v1nTag: Vector2 = un.mult(v2n);
-    const v1tTag: Vector2 = ut.mult(v1t);
-    const v2nTag: Vector2 = un.mult(v1n);
-    const v2tTag: Vector2 = ut.mult(v2t);
+  /**
+   * Handles a ball in the mouth of a pocket. The ball drops once its centre is over the hole,
+   * either near the middle of the pocket or past the line of the cushion noses. It only drops
+   * if it is slow enough, and the allowed speed falls as the ball comes in at more of an angle
+   * to the pocket's centre: a ball skimming across the mouth keeps going, and a ball hit too hard
+   * carries on into the back of the pocket, where it rattles. The pocket the ball drops into is recorded
+   * in the turn's state, so called shots can be checked.
+   *
+   * @param {Ball} ball - The ball to check and drop if it is pocketed.
+   */
+  private resolveBallInPocket(ball: Ball): void {
+    const pocket: Vector2 | null = this.getPocketAt(ball.position);
 
-    // Update velocities
-    first.velocity = v1nTag.add(v1tTag);
-    second.velocity = v2nTag.add(v2tTag);
+    if (!ball.onTable || !pocket) {
+      return;
+    }
 
-    first.velocity = first.velocity.mult(1 - physicsConfig.collisionLoss);
-    second.velocity = second.velocity.mult(1 - physicsConfig.collisionLoss);
+    const toPocket: Vector2 = pocket.subtract(ball.position);
+    const overHole: boolean = toPocket.length <= this.table.pocketDropRadius || this.isOffBed(ball.position);
+    if (!overHole) {
+      return;
+    }
 
-    return true;
+    const speed: number = ball.velocity.length;
+    const alignment: number = speed > 0 && toPocket.length > 0 ? toPocket.dot(ball.velocity) / (toPocket.length * speed) : 1;
+    if (speed <= this.table.pocketCaptureSpeed * (1 + alignment) / 2) {
+      ball.pocket(pocket);
+      this._turnState.ballPockets.set(ball, this.getPocketIndexAt(ball.position));
+    }
   }
 
   /**
-   * Handles all collisions in the game, including ball-to-ball and ball-to-cushion collisions.
-   * It also plays a sound effect when balls collide.
+   * Bounces a ball that has run through a pocket mouth into the back of the pocket. Such a ball
+   * is off the bed and outside every pocket mouth; it is put back on the edge of the nearest mouth
+   * and its velocity and spin bounce off the pocket's back, losing much of their speed. The ball
+   * then drops on its way back if it is slow enough, or rattles out onto the table.
+   *
+   * @param {Ball} ball - The ball to check and bounce if it has hit the back of a pocket.
    */
-  private handleCollisions(): void {
-    for (let i = 0; i < this._balls.length; i++) {
+  private resolveBallRattle(ball: Ball): void {
+    if (!ball.onTable || !this.isOffBed(ball.position) || this.isInsidePocket(ball.position)) {
+      return;
+    }
 
-      this.resolveBallCollisionWithCushion(this._balls[i]);
+    const pocket: Vector2 = this.table.pocketsPositions
+      .map((pocketPos: IVector2) => Vector2.copy(pocketPos))
+      .reduce((nearest: Vector2, pocketPos: Vector2) =>
+        pocketPos.distFrom(ball.position) < nearest.distFrom(ball.position) ? pocketPos : nearest
+      );
 
-      for (let j = i + 1; j < this._balls.length; j++) {
-        const firstBall = this._balls[i];
-        const secondBall = this._balls[j];
-        const collided = this.resolveBallsCollision(firstBall, secondBall);
+    const outwards: Vector2 = ball.position.subtract(pocket);
+    const normal: Vector2 = outwards.mult(-1 / outwards.length);
+    const restitution: number = this.table.pocketRattleRestitution;
 
-        if (collided) {
-          const force: number = firstBall.velocity.length + secondBall.velocity.length;
-          const volume: number = mapRange(force, 0, ballConfig.maxExpectedCollisionForce, 0, 1);
-          Assets.playSound(sounds.paths.ballsCollide, volume);
+    ball.position = pocket.subtract(normal.mult(this.table.pocketMouthRadius));
+    if (normal.dot(ball.velocity) < 0) {
+      const intensity: number = mapRange(ball.velocity.length, 0, ballConfig.maxExpectedCollisionForce, 0, 1);
+      this.reportEvent(GameEventType.BallsCollide, intensity);
 
-          if (!this._turnState.firstCollidedBallColor) {
-            const color: Color = firstBall.color === Color.white ? secondBall.color : firstBall.color;
-            this._turnState.firstCollidedBallColor = color;
-          }
-        }
-      }
+      ball.velocity = ball.velocity.subtract(normal.mult((1 + restitution) * normal.dot(ball.velocity)));
+      ball.spin = ball.spin.subtract(normal.mult((1 + restitution) * normal.dot(ball.spin)));
     }
   }
 
   /**
-   * Checks if a given ball position is inside one of the table's pockets.
-   *
-   * @param {Vector2} position - The position of the ball to check.
-   * @returns {boolean} True if the ball is inside a pocket, false otherwise.
+   * Handles balls that are pocketed during a turn, recording them in the turn's state.
    */
-  private isInsidePocket(position: Vector2): boolean {
-    return tableConfig.pocketsPositions
-      .some((pocketPos: Vector2) => position.distFrom(pocketPos) <= tableConfig.pocketRadius);
+  private handleBallsInPockets(): void {
+    this._balls.forEach((ball: Ball) => {
+      this.resolveBallRattle(ball);
+      this.resolveBallInPocket(ball);
+      if (ball.pocketed && !this._turnState.pocketedBalls.includes(ball)) {
+        this.reportEvent(GameEventType.BallPocketed, 1);
+        this._turnState.pocketedBalls.push(ball);
+      }
+    });
+  }
 
+  /**
+   * Checks whether a ball placed at the given position would touch none of the balls on the table.
+   *
+   * @param {Vector2} position - The position to check.
+   * @returns {boolean} True if no ball is in the way, false otherwise.
+   */
+  private isFreePosition(position: Vector2): boolean {
+    return !this._balls.some((other: Ball) => other.visible && other.position.distFrom(position) <= ballConfig.diameter);
   }
 
   /**
-   * Handles the event when a ball enters a pocket, hiding it from the table.
+   * Gets the first free spot among the given ones. If they are all taken, gets the free position closest
+   * to the first spot on the line running from it towards the foot cushion, or towards the head cushion
+   * if there is no room before the foot cushion.
    *
-   * @param {Ball} ball - The ball to check and hide if it is pocketed.
+   * @param {IVector2[]} spots - The spots to place a ball on, in order.
+   * @returns {Vector2} The free position.
    */
-  private resolveBallInPocket(ball: Ball): void {
+  private getFreeSpot(spots: IVector2[]): Vector2 {
+    const freeSpot: IVector2 = spots.find((spot: IVector2) => this.isFreePosition(Vector2.copy(spot)));
+
+    if (freeSpot) {
+      return Vector2.copy(freeSpot);
+    }
 
-    if (this.isInsidePocket(ball.position)) {
-      ball.hide();
+    for (const step of [1, -1]) {
+      const position: Vector2 = Vector2.copy(spots[0]);
+
+      while (this.isBallPosOnBed(position)) {
+        if (this.isFreePosition(position)) {
+          return position;
+        }
+        position.addToX(step);
+      }
     }
+
+    return Vector2.copy(spots[0]); // The line is full from cushion to cushion, which a rack of balls cannot fill
   }
 
   /**
-   * Checks if the ball color is valid for a player's assigned color (red or yellow).
+   * Puts a pocketed ball back on the first of its spots that is free. If they are all taken, the ball is placed
+   * as close to its own spot as possible on the line running from the spot towards the foot cushion.
    *
-   * @param {Color} color - The color of the ball to check.
-   * @returns {boolean} True if the ball color is valid, false otherwise.
+   * @param {Ball} ball - The ball to spot.
    */
-  private isValidPlayerColor(color: Color): boolean {
-    return color === Color.red || color === Color.yellow;
+  private spotBall(ball: Ball): void {
+    ball.show(this.getFreeSpot(this._ruleSet.getSpotPositions(ball)));
+    this._balls.push(ball);
   }
 
   /**
-   * Handles balls that are pocketed during a turn, updating the game state and player assignments.
+   * Re-racks the balls the rule set puts back in the rack, in games racked again during play. A ball left
+   * in the way of the rack is moved: an object ball to the head spot, where the cue ball starts, and the
+   * cue ball into the player's hand, to be placed behind the head string.
+   *
+   * @returns {boolean} True if the cue ball was in the way and has to be placed again, false otherwise.
    */
-  private handleBallsInPockets(): void {
-    this._balls.forEach((ball: Ball) => {
-      this.resolveBallInPocket(ball);
-      if (!ball.visible && !this._turnState.pocketedBalls.includes(ball)) {
-        Assets.playSound(sounds.paths.rail, 1);
-        if (!this.currentPlayer.color && this.isValidPlayerColor(ball.color)) {
-          this.currentPlayer.color = ball.color;
-          this.nextPlayer.color = ball.color === Color.yellow ? Color.red : Color.yellow;
-        }
-        this._turnState.pocketedBalls.push(ball);
+  private rerack(): boolean {
+    const rackedBalls: Ball[] = this._ruleSet.rerackBalls(this._balls);
+    const isInTheWay = (ball: Ball): boolean => ball.visible &&
+      rackedBalls.some((racked: Ball) => racked.position.distFrom(ball.position) <= ballConfig.diameter);
+    const ballsInTheWay: Ball[] = this._balls.filter(isInTheWay);
+    let cueBallInTheWay: boolean = false;
+
+    this._balls.push(...rackedBalls); // Racked first, so that no ball moved out of the way lands in the rack
+
+    ballsInTheWay.forEach((ball: Ball) => {
+      if (ball === this._cueBall) {
+        cueBallInTheWay = true;
+      }
+      else {
+        ball.position = this.getFreeSpot([this.cueBallPosition]);
       }
     });
+
+    return cueBallInTheWay;
   }
 
   /**
-   * Handles the event when the cue ball is in hand, allowing the player to place it on the table.
+   * Checks whether the turn is the current player's last foul in a row before losing the rack.
+   *
+   * @returns {boolean} True if the current player loses the rack on fouls, false otherwise.
    */
-  private handleBallInHand(): void {
+  private isLostOnFouls(): boolean {
+    const foulsToLose: number = this._ruleSet.consecutiveFoulsToLose;
+
+    return foulsToLose > 0 && !this._turnState.isValid && this.currentPlayer.consecutiveFouls + 1 >= foulsToLose;
+  }
 
-    if (Mouse.isPressed(inputConfig.mousePlaceBallButton) && this.isValidPosToPlaceCueBall(Mouse.position)) {
-      this.placeBallInHand(Mouse.position);
+  /**
+   * Gets the phase of the turn that follows the current one. A push-out leaves the opponent
+   * to decide who shoots next, an illegal break may leave them to choose whether to re-rack,
+   * and the shot right after the break may be a push-out in games allowing it.
+   *
+   * @returns {TurnPhase} The phase of the next turn.
+   */
+  private getNextTurnPhase(): TurnPhase {
+    if (this._turnState.pushOut && this._turnState.isValid) {
+      return TurnPhase.PushOutDecision;
     }
-    else {
-      this._stick.movable = false;
-      this._stick.visible = false;
-      this._cueBall.position = Mouse.position;
+    if (this._turnPhase === TurnPhase.Break && this._ruleSet.illegalBreakOption &&
+      this._turnState.verdict.fouls.includes(FoulType.IllegalBreak)) {
+      return TurnPhase.BreakDecision;
     }
+    return this._turnPhase === TurnPhase.Break ? this.getPhaseAfterBreak() : TurnPhase.Shot;
   }
 
   /**
-   * Handles the end of the game, updating the overall score and starting a new match.
+   * Gets the phase of the shot right after the break, which may be a push-out in games allowing it.
+   *
+   * @returns {TurnPhase} The phase of the shot after the break.
    */
-  private handleGameOver(): void {
-    if (this._turnState.isValid) {
-      this.currentPlayer.overallScore++;
+  private getPhaseAfterBreak(): TurnPhase {
+    return this._ruleSet.pushOutAfterBreak ? TurnPhase.PushOutAllowed : TurnPhase.Shot;
+  }
+
+  /**
+   * Racks the balls for a new break, with the cue ball back where the rules start it. The current
+   * player breaks, and the players keep their scores.
+   */
+  private rack(): void {
+    const objectBalls: Ball[] = this._ruleSet.rackBalls();
+
+    this._cueBall = new Ball(Vector2.copy(this._ruleSet.cueBallPosition), Color.white);
+
+    this._stick = new Stick(Vector2.copy(this._ruleSet.cueBallPosition));
+
+    this._balls = [
+      ...objectBalls,
+      this._cueBall,
+    ];
+
+    this._turnPhase = TurnPhase.Break;
+    this._turnState = new State();
+    this._turnState.isBreak = true;
+  }
+
+  /**
+   * Changes the current player to the next one, who starts a new break.
+   */
+  private switchPlayer(): void {
+    this._currentPlayerIndex++;
+    this._currentPlayerIndex = this._currentPlayerIndex % this._players.length;
+    this.currentPlayer.currentBreak = 0;
+  }
+
+  /**
+   * Decides who takes the next visit at the table. A foul hands the table to the opponent with the visits
+   * the rules give them, and a turn the player keeps uses up any visit they carried. Otherwise the player
+   * goes on to the visit they carried, or hands the table over.
+   *
+   * @param {boolean} foul - Whether the current player fouled on the turn.
+   */
+  private passVisit(foul: boolean): void {
+    if (foul) {
+      this.nextPlayer.visits = this._ruleSet.visitsAfterFoul;
+      this.switchPlayer();
+    }
+    else if (this._ruleSet.keepsTurn(this._turnState)) {
+      this.currentPlayer.visits = 1;
+    }
+    else if (this.currentPlayer.visits > 1) {
+      this.currentPlayer.visits--;
     }
     else {
-      this.nextPlayer.overallScore++;
+      this.nextPlayer.visits = 1;
+      this.switchPlayer();
     }
+  }
+
+  /**
+   * Handles the end of the game, updating the overall score of the winner the rules name and starting a new match.
+   */
+  private handleGameOver(): void {
+    this._ruleSet.getWinner(this.currentPlayer, this.nextPlayer, this._turnState).overallScore++;
     this.initMatch();
   }
 
   /**
-   * Moves the game to the next turn, handling fouls and changing the current player if necessary.
+   * Moves the game to the next turn, scoring the turn's points for both players, handling fouls, spotting
+   * and re-racking balls, and changing the current player if necessary, or letting them play a visit they carried.
+   * After a push-out or an illegal break the opponent takes over to decide how play goes on,
+   * and the AI answers at once.
    */
   private nextTurn(): void {
 
     const foul = !this._turnState.isValid;
+    this._lastVerdict = this._turnState.verdict;
+    const turnPoints: number = this._ruleSet.getTurnPoints(this.currentPlayer, this._turnState);
+    this.currentPlayer.points += turnPoints;
+    this.currentPlayer.currentBreak += turnPoints;
+    this.nextPlayer.points += this._ruleSet.getOpponentPoints(this.currentPlayer, this._turnState);
 
     if (this.isGameOver) {
       this.handleGameOver();
       return;
     }
 
+    this.currentPlayer.consecutiveFouls = foul ? this.currentPlayer.consecutiveFouls + 1 : 0;
+
     if (!this._cueBall.visible) {
-      this._cueBall.show(Vector2.copy(GameConfig.cueBallPosition));
+      this._cueBall.show(Vector2.copy(this._ruleSet.cueBallPosition));
     }
 
-    if (foul || this._turnState.pocketedBalls.length === 0) {
-      this._currentPlayerIndex++;
-      this._currentPlayerIndex = this._currentPlayerIndex % this._players.length;
-    }
+    this._ruleSet.getBallsToSpot(this._turnState).forEach((ball: Ball) => this.spotBall(ball));
+    const cueBallRacked: boolean = this.rerack();
+
+    this.passVisit(foul);
 
     this._stick.show(this._cueBall.position);
 
+    const zone: BallInHandZone = foul ? this._ruleSet.getBallInHandZone(this._turnState) : BallInHandZone.Table;
+
+    this._turnPhase = this.getNextTurnPhase();
     this._turnState = new State();
-    this._turnState.ballInHand = foul;
+    this._turnState.ballInHand = (foul && zone !== BallInHandZone.None) || cueBallRacked;
+    this._turnState.ballInHandZone = cueBallRacked ? BallInHandZone.Kitchen : zone;
 
     if (this.isAITurn()) {
-      AI.startSession(this);
+      this.startAITurn();
     }
   }
 
   /**
-   * Draws the label for the current player, indicating whose turn it is.
+   * Lets the AI play its turn: answering the option its opponent left it, or training and taking its shot.
    */
-  private drawCurrentPlayerLabel(): void {
+  private startAITurn(): void {
+    switch (this._turnPhase) {
+      case TurnPhase.PushOutDecision:
+        AI.answerPushOut(this);
+        break;
+
+      case TurnPhase.BreakDecision:
+        AI.answerIllegalBreak(this);
+        break;
+
+      default:
+        AI.startSession(this);
+    }
+  }
 
-    Canvas2D.drawText(
-      labelsConfig.currentPlayer.text + (this._currentPlayerIndex + 1),
-      labelsConfig.currentPlayer.font,
-      labelsConfig.currentPlayer.color,
-      labelsConfig.currentPlayer.position,
-      labelsConfig.currentPlayer.alignment
-    );
+  /**
+   * Checks whether a position is within the valid boundaries of the table, excluding pockets.
+   *
+   * @param {Vector2} position - The position to check.
+   * @returns {boolean} True if the position is inside the table boundaries, false otherwise.
+   */
+  private isInsideTableBoundaries(position: Vector2): boolean {
+    return !this.isInsidePocket(position) && this.isBallPosOnBed(position);
   }
 
   /**
-   * Draws the match scores for each player, indicating the number of balls pocketed.
+   * Checks whether a position lies in the zone the cue ball in hand may be placed in.
+   *
+   * @param {Vector2} position - The position to check.
+   * @returns {boolean} True if the position is in the zone, false otherwise.
    */
-  private drawMatchScores(): void {
-    for (let i = 0; i < this._players.length; i++) {
-      for (let j = 0; j < this._players[i].matchScore; j++) {
-        const scorePosition: Vector2 = Vector2.copy(matchScoreConfig.scoresPositions[i]).addToX(j * matchScoreConfig.unitMargin);
-        const scoreSprite: HTMLImageElement = this._players[i].color === Color.red ? Assets.getSprite(sprites.paths.redScore) : Assets.getSprite(sprites.paths.yellowScore);
-        Canvas2D.drawImage(scoreSprite, scorePosition);
-      }
+  private isInsideBallInHandZone(position: Vector2): boolean {
+    switch (this._turnState.ballInHandZone) {
+      case BallInHandZone.Kitchen:
+        return position.x <= GameConfig.headStringX;
+
+      case BallInHandZone.D:
+        return position.x <= GameConfig.baulkLineX &&
+          position.distFrom(Vector2.copy(GameConfig.snookerSpots.brown)) <= GameConfig.dRadius;
+
+      default:
+        return true;
     }
   }
 
   /**
-   * Draws the overall scores for each player, indicating their total score across all matches.
+   * Takes a snapshot of the state of the current turn, giving its balls by their index in the balls of the game world.
+   *
+   * @returns {ITurnSnapshot} The snapshot of the turn.
    */
-  private drawOverallScores(): void {
-    for (let i = 0; i < this._players.length; i++) {
-      Canvas2D.drawText(
-        this._players[i].overallScore.toString(),
-        labelsConfig.overalScores[i].font,
-        labelsConfig.overalScores[i].color,
-        labelsConfig.overalScores[i].position,
-        labelsConfig.overalScores[i].alignment
-      );
-    }
+  private snapshotTurn(): ITurnSnapshot {
+    const state: State = this._turnState;
+    const indexOf = (ball: Ball): number => this._balls.indexOf(ball);
+
+    return {
+      firstCollidedBall: state.firstCollidedBall ? indexOf(state.firstCollidedBall) : -1,
+      pocketedBalls: state.pocketedBalls.map(indexOf),
+      ballPockets: Array.from(state.ballPockets).map(([ball, pocket]: [Ball, number]) => [indexOf(ball), pocket]),
+      calledBall: state.calledBall ? indexOf(state.calledBall) : -1,
+      calledPocket: state.calledPocket,
+      cushionContacts: state.cushionContacts.map(indexOf),
+      isBreak: state.isBreak,
+      ballInHand: state.ballInHand,
+      ballInHandZone: state.ballInHandZone,
+      pushOut: state.pushOut,
+      isValid: state.isValid,
+      verdict: { fouls: [...state.verdict.fouls] },
+    };
   }
 
   /**
-   * Checks whether a position is within the valid boundaries of the table, excluding pockets.
+   * Restores the state of the current turn from a snapshot, once the balls it refers to are restored.
    *
-   * @param {Vector2} position - The position to check.
-   * @returns {boolean} True if the position is inside the table boundaries, false otherwise.
+   * @param {ITurnSnapshot} turn - The snapshot of the turn.
    */
-  private isInsideTableBoundaries(position: Vector2): boolean {
-    let insideTable: boolean = !this.isInsidePocket(position);
-    insideTable = insideTable && !this.isBallPosOutsideTopBorder(position);
-    insideTable = insideTable && !this.isBallPosOutsideLeftBorder(position);
-    insideTable = insideTable && !this.isBallPosOutsideRightBorder(position);
-    insideTable = insideTable && !this.isBallPosOutsideBottomBorder(position);
+  private restoreTurn(turn: ITurnSnapshot): void {
+    const state: State = new State();
+    const ballAt = (index: number): Ball => this._balls[index];
 
-    return insideTable;
+    if (turn.firstCollidedBall >= 0) {
+      state.firstCollidedBall = ballAt(turn.firstCollidedBall);
+      state.firstCollidedBallColor = state.firstCollidedBall.color;
+    }
+    state.pocketedBalls = turn.pocketedBalls.map(ballAt);
+    state.ballPockets = new Map(turn.ballPockets.map(([ball, pocket]: number[]): [Ball, number] => [ballAt(ball), pocket]));
+    state.calledBall = turn.calledBall >= 0 ? ballAt(turn.calledBall) : null;
+    state.calledPocket = turn.calledPocket;
+    state.cushionContacts = turn.cushionContacts.map(ballAt);
+    state.isBreak = turn.isBreak;
+    state.ballInHand = turn.ballInHand;
+    state.ballInHandZone = turn.ballInHandZone;
+    state.pushOut = turn.pushOut;
+    state.isValid = turn.isValid;
+    state.verdict = { fouls: [...turn.verdict.fouls] };
+
+    this._turnState = state;
   }
 
   /**
@@ -539,37 +1086,23 @@ export class GameWorld {
   //------Public Methods------//
 
   /**
-   * Initializes a new match, setting up the balls, players, and other game elements.
+   * Initializes a new match, racking the balls by the rule set and setting up the players
+   * and other game elements.
    */
   public initMatch(): void {
 
-    const redBalls: Ball[] = GameConfig.redBallsPositions
-      .map((position: Vector2) => new Ball(Vector2.copy(position), Color.yellow));
-
-    const yellowBalls: Ball[] = GameConfig.yellowBallsPositions
-      .map((position: Vector2) => new Ball(Vector2.copy(position), Color.red));
-
-    this._8Ball = new Ball(Vector2.copy(GameConfig.eightBallPosition), Color.black);
-
-    this._cueBall = new Ball(Vector2.copy(GameConfig.cueBallPosition), Color.white);
-
-    this._stick = new Stick(Vector2.copy(GameConfig.cueBallPosition));
-
-    this._balls = [
-      ...redBalls,
-      ...yellowBalls,
-      this._8Ball,
-      this._cueBall,
-    ];
+    this.rack();
 
     this._currentPlayerIndex = 0;
 
     this._players.forEach((player: Player) => {
       player.matchScore = 0;
       player.color = null;
+      player.consecutiveFouls = 0;
+      player.visits = 1;
+      player.points = 0;
+      player.currentBreak = 0;
     });
-    this._turnState = new State();
-    this._referee = new Referee();
 
     if (this.isAITurn()) {
       AI.startSession(this);
@@ -577,7 +1110,8 @@ export class GameWorld {
   }
 
   /**
-   * Checks if a given position is valid for placing the cue ball.
+   * Checks if a given position is valid for placing the cue ball, clear of the other balls and inside
+   * the zone the rules allow.
    *
    * @param {Vector2} position - The position to check.
    * @returns {boolean} True if the position is valid, false otherwise.
@@ -588,7 +1122,7 @@ export class GameWorld {
         ball.position.distFrom(position) > ballConfig.diameter;
     });
 
-    return noOverlap && this.isInsideTableBoundaries(position);
+    return noOverlap && this.isInsideTableBoundaries(position) && this.isInsideBallInHandZone(position);
   }
 
   /**
@@ -602,8 +1136,117 @@ export class GameWorld {
     this._stick.show(this._cueBall.position);
   }
 
+  /**
+   * Moves the cue ball in hand to follow the player's pointer before it is placed.
+   * The stick stays hidden until the ball is placed.
+   *
+   * @param {Vector2} position - The position the cue ball should follow.
+   */
+  public moveBallInHand(position: Vector2): void {
+    this._stick.movable = false;
+    this._stick.visible = false;
+    this._cueBall.position = position;
+  }
+
+  /**
+   * Calls the ball and the pocket of the current shot.
+   *
+   * @param {Ball} ball - The object ball to call.
+   * @param {number} pocket - The index of the pocket to call in the table's pocket positions.
+   */
+  public callShot(ball: Ball, pocket: number): void {
+    this._turnState.calledBall = ball;
+    this._turnState.calledPocket = pocket;
+  }
+
+  /**
+   * Calls the object ball or the pocket at the given position, leaving the other half of the call as it is.
+   * The player calls a shot by pointing at the ball and at the pocket in either order.
+   *
+   * @param {Vector2} position - The position pointed at on the table.
+   */
+  public callAt(position: Vector2): void {
+    const ball: Ball = this._balls.find((ball: Ball) =>
+      ball.onTable && ball.color !== Color.white && ball.position.distFrom(position) <= ballConfig.diameter / 2
+    );
+    const pocket: number = this.getPocketIndexAt(position);
+
+    if (ball) {
+      this._turnState.calledBall = ball;
+    }
+    else if (pocket >= 0) {
+      this._turnState.calledPocket = pocket;
+    }
+  }
+
+  /**
+   * Gets the pocket a ball pocketed during the current turn dropped into.
+   *
+   * @param {Ball} ball - The pocketed ball.
+   * @returns {number} The index of the pocket in the table's pocket positions, or undefined if the ball was not pocketed on the turn.
+   */
+  public getPocketOfBall(ball: Ball): number {
+    return this._turnState.ballPockets.get(ball);
+  }
+
+  /**
+   * Declares the current shot a push-out, which is only allowed on the shot right after the break
+   * in games that play push-outs.
+   */
+  public declarePushOut(): void {
+    if (this._turnPhase === TurnPhase.PushOutAllowed) {
+      this._turnState.pushOut = true;
+    }
+  }
+
+  /**
+   * Answers the push-out of the previous player. The current player either takes the shot
+   * from where the balls lie or passes it back to the player who pushed out. An AI taking the shot
+   * plays the one it found while deciding, so a session is only started for an AI the shot is passed to.
+   *
+   * @param {boolean} takeShot - True to take the shot, false to pass it back.
+   */
+  public answerPushOut(takeShot: boolean): void {
+    if (this._turnPhase !== TurnPhase.PushOutDecision) {
+      return;
+    }
+
+    if (!takeShot) {
+      this.switchPlayer();
+    }
+    this._turnPhase = TurnPhase.Shot;
+
+    if (!takeShot && this.isAITurn()) {
+      AI.startSession(this);
+    }
+  }
+
+  /**
+   * Answers the illegal break of the previous player. The current player either plays on from
+   * where the balls lie, or has the balls re-racked and breaks themselves.
+   *
+   * @param {boolean} playOn - True to play on, false to re-rack and break.
+   */
+  public answerIllegalBreak(playOn: boolean): void {
+    if (this._turnPhase !== TurnPhase.BreakDecision) {
+      return;
+    }
+
+    if (playOn) {
+      this._turnPhase = this.getPhaseAfterBreak();
+    }
+    else {
+      this.rack();
+    }
+
+    if (this.isAITurn()) {
+      AI.startSession(this);
+    }
+  }
+
   /**
    * Concludes the current turn, updating the game state and scores based on the turn's outcome.
+   * The groups are assigned once the turn is judged, as the rules may only give them on a legal pot.
    */
   public concludeTurn(): void {
 
@@ -614,49 +1257,66 @@ export class GameWorld {
       }
     });
 
-    if (this.currentPlayer.color) {
-      this.currentPlayer.matchScore = 8 - this.getBallsByColor(this.currentPlayer.color).length - this.getBallsByColor(Color.black).length;
-    }
+    this._players.forEach((player: Player) => this._ruleSet.updateMatchScore(player, this._balls));
 
-    if (this.nextPlayer.color) {
-      this.nextPlayer.matchScore = 8 - this.getBallsByColor(this.nextPlayer.color).length - this.getBallsByColor(Color.black).length;
-    }
+    this._turnState.verdict = this._ruleSet.judgeTurn(this.currentPlayer, this._turnState, this._balls);
+    this._turnState.isValid = this._turnState.verdict.fouls.length === 0;
+
+    this._ruleSet.assignGroups(this._turnState, this.currentPlayer, this.nextPlayer);
+    this._players.forEach((player: Player) => this._ruleSet.updateMatchScore(player, this._balls));
+  }
 
-    this._turnState.isValid = this._referee.isValidTurn(this.currentPlayer, this._turnState);
+  /**
+   * Checks whether a shot in the given direction is allowed. A cue ball placed in the kitchen has to be
+   * played out of it, away from the head cushion.
+   *
+   * @param {number} rotation - The angle (in radians) at which the cue ball would be shot.
+   * @returns {boolean} True if the shot is allowed, false otherwise.
+   */
+  public isShotAllowed(rotation: number): boolean {
+    return this._turnState.ballInHandZone !== BallInHandZone.Kitchen || Math.cos(rotation) > 0;
   }
 
   /**
-   * Shoots the cue ball with the specified power and rotation, triggering the game physics.
+   * Shoots the cue ball with the specified power, rotation and tip offset, triggering the game physics.
+   * Nothing happens while a decision is pending or if the rules forbid the direction of the shot.
    *
    * @param {number} power - The power with which to shoot the cue ball.
    * @param {number} rotation - The angle (in radians) at which to shoot the cue ball.
+   * @param {Vector2} tipOffset - Where the cue tip strikes the cue ball, giving it draw, follow or side spin.
    */
-  public shootCueBall(power: number, rotation: number): void {
-    if (power > 0) {
+  public shootCueBall(power: number, rotation: number, tipOffset: Vector2 = Vector2.zero): void {
+    if (power > 0 && !this.isDecisionPending && this.isShotAllowed(rotation)) {
       this._stick.rotation = rotation;
+      this._stick.tipOffset = tipOffset;
       this._stick.shoot();
-      this._cueBall.shoot(power, rotation);
+      this.reportEvent(GameEventType.Strike, mapRange(power, 0, stickConfig.maxPower, 0, 1));
+      this._cueBall.shoot(power, rotation, tipOffset);
+      this._shotsTaken++;
       this._stick.movable = false;
       setTimeout(() => this._stick.hide(), GameConfig.timeoutToHideStickAfterShot);
     }
   }
 
   /**
-   * Updates the game state, handling ball movements, collisions, player input, and AI behavior.
-   * This method is called on every frame to keep the game running smoothly.
+   * Advances the game by one fixed simulation step, moving the balls, handling
+   * collisions and pockets, and concluding the turn once everything has come to rest. The step
+   * is split into sub-steps so fast balls move in small increments. The game loop and the AI
+   * both drive the simulation through this method, so a shot plays out the same in either.
    */
-  public update(): void {
+  public step(): void {
 
-    if (this.isBallInHand) {
-      this.handleBallInHand();
+    if (this.isBallInHand || this.isDecisionPending) {
       return;
     }
 
-    this.handleBallsInPockets();
-    this.handleCollisions();
-    this.handleInput();
-    this._stick.update();
-    this._balls.forEach((ball: Ball) => ball.update());
+    const dt: number = 1 / physicsConfig.subSteps;
+    for (let i = 0; i < physicsConfig.subSteps; i++) {
+      this.handleBallsInPockets();
+      this._balls.forEach((ball: Ball) => ball.updateDrop(dt));
+      this._balls.forEach((ball: Ball) => ball.applyFriction(dt));
+      this.moveBalls(dt);
+    }
 
     if (!this.isBallsMoving && !this._stick.visible) {
       this.concludeTurn();
@@ -665,15 +1325,63 @@ export class GameWorld {
   }
 
   /**
-   * Draws the entire game world, including the table, balls, stick, and UI elements such as scores.
-   * This method is called on every frame to render the game's visuals.
+   * Takes a snapshot of the game world as plain data, which can be copied to a web worker, written out as JSON
+   * or restored later to go back to this moment. It is taken between two simulation steps, while the balls
+   * pocketed on the turn are still in play.
+   *
+   * @returns {IWorldSnapshot} The snapshot of the balls, the players, the turn and the rules.
+   */
+  public snapshot(): IWorldSnapshot {
+    return {
+      gameMode: this.gameMode,
+      balls: this._balls.map((ball: Ball) => ball.snapshot()),
+      cueBall: this._balls.indexOf(this._cueBall),
+      players: this._players.map((player: Player) => player.snapshot()),
+      currentPlayerIndex: this._currentPlayerIndex,
+      turnPhase: this._turnPhase,
+      turn: this.snapshotTurn(),
+      lastVerdict: { fouls: [...this._lastVerdict.fouls] },
+      shotsTaken: this._shotsTaken,
+      rules: this._ruleSet.snapshot(),
+    };
+  }
+
+  /**
+   * Restores the game world from a snapshot taken of a game played under the same rules. The balls carry
+   * on moving as they were, and the stick is shown at the cue ball while the balls are at rest, or stays
+   * hidden until the shot being played out has ended. Events reported before are dropped.
+   *
+   * @param {IWorldSnapshot} snapshot - The snapshot to restore.
+   */
+  public restore(snapshot: IWorldSnapshot): void {
+    this._balls = snapshot.balls.map((ball: IBallSnapshot) => Ball.fromSnapshot(ball));
+    this._cueBall = this._balls[snapshot.cueBall];
+
+    this._stick = new Stick(this._cueBall.position);
+    if (this.isBallsMoving) {
+      this._stick.hide();
+    }
+
+    this._players = snapshot.players.map((player: IPlayerSnapshot) => Player.fromSnapshot(player));
+    this._currentPlayerIndex = snapshot.currentPlayerIndex;
+    this._turnPhase = snapshot.turnPhase;
+    this.restoreTurn(snapshot.turn);
+    this._lastVerdict = { fouls: [...snapshot.lastVerdict.fouls] };
+    this._shotsTaken = snapshot.shotsTaken;
+    this._events = [];
+
+    this._ruleSet.restore(snapshot.rules);
+  }
+
+  /**
+   * Takes the events reported since the last call, such as collisions and pocketed balls,
+   * leaving the list empty. The game plays their sounds; a headless simulation can ignore them.
+   *
+   * @returns {IGameEvent[]} The reported events, oldest first.
    */
-  public draw(): void {
-    Canvas2D.drawImage(Assets.getSprite(sprites.paths.table));
-    this.drawCurrentPlayerLabel();
-    this.drawMatchScores();
-    this.drawOverallScores();
-    this._balls.forEach((ball: Ball) => ball.draw());
-    this._stick.draw();
+  public takeEvents(): IGameEvent[] {
+    const events: IGameEvent[] = this._events;
+    this._events = [];
+    return events;
   }
 }
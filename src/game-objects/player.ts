@@ -1,4 +1,5 @@
 import { Color } from '../common/color';
+import { IPlayerSnapshot } from './world-snapshot';
 
 /**
  * Player
@@ -13,7 +14,8 @@ export class Player {
 
   /**
    * The color assigned to the player, representing the type of balls they are playing with
-   * (e.g., red, yellow, black, white). This can be null if the player has not been assigned a color yet.
+   * (e.g., red or yellow in blackball, solid or striped in 8-ball). This can be null if the player has not
+   * been assigned a color yet.
    *
    * @type {Color | null}
    * @default null
@@ -28,6 +30,23 @@ export class Player {
    */
   public matchScore: number = 0;
 
+  /**
+   * The points scored in the current match, in games scored by points like straight pool.
+   * Penalties can take it below zero.
+   *
+   * @type {number}
+   * @default 0
+   */
+  public points: number = 0;
+
+  /**
+   * The points the player has scored in their current visit at the table, their break in snooker.
+   *
+   * @type {number}
+   * @default 0
+   */
+  public currentBreak: number = 0;
+
   /**
    * The player's overall score, which could represent the cumulative score across multiple games or sessions.
    *
@@ -36,4 +55,61 @@ export class Player {
    */
   public overallScore: number = 0;
 
+  /**
+   * The number of fouls the player has made in a row during the current match. Rotation games
+   * like 9-ball make a player lose the rack when it reaches three.
+   *
+   * @type {number}
+   * @default 0
+   */
+  public consecutiveFouls: number = 0;
+
+  /**
+   * The number of visits the player has left at the table, counting the current one. A player who
+   * is fouled against gets two visits in blackball played with the two-visit penalty.
+   *
+   * @type {number}
+   * @default 1
+   */
+  public visits: number = 1;
+
+  //------Public Methods------//
+
+  /**
+   * Creates a player from a snapshot, with the group and scores they had when the snapshot was taken.
+   *
+   * @param {IPlayerSnapshot} snapshot - The snapshot taken of the player.
+   * @returns {Player} A new player in the state of the snapshot.
+   */
+  public static fromSnapshot(snapshot: IPlayerSnapshot): Player {
+    const player: Player = new Player();
+
+    player.color = snapshot.color;
+    player.matchScore = snapshot.matchScore;
+    player.points = snapshot.points;
+    player.currentBreak = snapshot.currentBreak;
+    player.overallScore = snapshot.overallScore;
+    player.consecutiveFouls = snapshot.consecutiveFouls;
+    player.visits = snapshot.visits;
+
+    return player;
+  }
+
+  /**
+   * Takes a snapshot of the player as plain data.
+   *
+   * @returns {IPlayerSnapshot} The snapshot of the player's group, scores and visits.
+   */
+  public snapshot(): IPlayerSnapshot {
+    return {
+      color: this.color,
+      matchScore: this.matchScore,
+      points: this.points,
+      currentBreak: this.currentBreak,
+      overallScore: this.overallScore,
+      consecutiveFouls: this.consecutiveFouls,
+      visits: this.visits,
+    };
+  }
+
 }
@@ -1,5 +1,7 @@
 import { Ball } from './ball';
 import { Color } from "../common/color";
+import { IVerdict } from '../rules/verdict';
+import { BallInHandZone } from '../rules/ball-in-hand-zone';
 
 /**
  * State
@@ -20,6 +22,14 @@ export class State {
    */
   public firstCollidedBallColor: Color;
 
+  /**
+   * The first ball that was collided with during the player's turn.
+   * Games where the ball to hit is chosen by number, like 9-ball, use it rather than its color.
+   *
+   * @type {Ball}
+   */
+  public firstCollidedBall: Ball;
+
   /**
    * An array of balls that have been pocketed during the player's turn.
    * This is used to track which balls have been sunk and may influence scoring or game rules.
@@ -29,6 +39,48 @@ export class State {
    */
   public pocketedBalls: Ball[] = [];
 
+  /**
+   * The pocket each ball pocketed during the turn dropped into, as an index into the table's pocket positions.
+   * This is used to check that a called ball went into the called pocket.
+   *
+   * @type {Map<Ball, number>}
+   * @default new Map()
+   */
+  public ballPockets: Map<Ball, number> = new Map();
+
+  /**
+   * The ball the player called before shooting, in games where shots are called.
+   *
+   * @type {Ball}
+   * @default null
+   */
+  public calledBall: Ball = null;
+
+  /**
+   * The pocket the player called for the called ball, as an index into the table's pocket positions.
+   *
+   * @type {number}
+   * @default null
+   */
+  public calledPocket: number = null;
+
+  /**
+   * The balls that hit a cushion after the cue ball's first contact, once for each contact.
+   * This is used to check that a ball reached a rail after the contact, and how many balls the break drove to the cushions.
+   *
+   * @type {Ball[]}
+   * @default []
+   */
+  public cushionContacts: Ball[] = [];
+
+  /**
+   * A flag indicating whether the turn is the break, the opening shot of the rack.
+   *
+   * @type {boolean}
+   * @default false
+   */
+  public isBreak = false;
+
   /**
    * A flag indicating whether the player has the ball in hand, allowing them to place it anywhere on the table.
    * This typically occurs after certain fouls or at the start of the game.
@@ -38,6 +90,24 @@ export class State {
    */
   public ballInHand = false;
 
+  /**
+   * The zone the player may place the cue ball in hand in. Once the cue ball is placed in the kitchen,
+   * the shot must also be played out of the kitchen.
+   *
+   * @type {BallInHandZone}
+   * @default BallInHandZone.Table
+   */
+  public ballInHandZone: BallInHandZone = BallInHandZone.Table;
+
+  /**
+   * A flag indicating whether the player declared the shot a push-out. A push-out does not have to hit
+   * the lowest ball, and the opponent then chooses who takes the next shot.
+   *
+   * @type {boolean}
+   * @default false
+   */
+  public pushOut = false;
+
   /**
    * A flag indicating whether the current state of play is valid according to the game's rules.
    * This can be used to determine if the player's actions during their turn are legitimate or if a foul has occurred.
@@ -46,4 +116,13 @@ export class State {
    * @default false
    */
   public isValid = false;
+
+  /**
+   * The verdict of the rule set on the turn, listing the fouls the player committed.
+   * It is given when the turn is concluded, and the turn is valid when it lists no fouls.
+   *
+   * @type {IVerdict}
+   * @default { fouls: [] }
+   */
+  public verdict: IVerdict = { fouls: [] };
 }
@@ -1,39 +1,30 @@
-import { IStickConfig, IInputConfig } from './../game.config.type';
-import { Keyboard } from '../input/keyboard';
-import { Mouse } from '../input/mouse';
+import { IStickConfig } from './../game.config.type';
 import { GameConfig } from '../game.config';
-import { Assets } from '../assets';
-import { Canvas2D } from '../canvas';
 import { Vector2 } from '../physics/vector2';
-import { mapRange } from '../common/helper';
-import { IAssetsConfig } from '../game.config.type';
 
 //------Configurations------//
 
 // Load configurations from the game configuration
-const inputConfig: IInputConfig = GameConfig.input;
 const stickConfig: IStickConfig = GameConfig.stick;
-const sprites: IAssetsConfig = GameConfig.sprites;
-const sounds: IAssetsConfig = GameConfig.sounds;
 
 /**
  * Stick
  *
  * This class represents the cue stick used in the game to shoot the billiard balls.
  * It handles the stick's position, rotation, power, visibility, and movement.
- * The stick's behavior is controlled by player inputs (keyboard and mouse) and
- * interacts with the game world based on configured settings.
+ * The stick is aimed and powered by the player's input through the PlayerController,
+ * or by the AI, and drawn by the StickRenderer, so it holds no input or drawing code itself.
  */
 export class Stick {
 
   //------Members------//
 
-  private _sprite: HTMLImageElement = Assets.getSprite(sprites.paths.stick); // The image representing the stick
   private _rotation: number = 0; // The current rotation angle of the stick in radians
   private _origin: Vector2 = Vector2.copy(stickConfig.origin); // The origin point for rotating the stick
   private _power: number = 0; // The current power level of the shot
+  private _tipOffset: Vector2 = Vector2.zero; // Where the tip strikes the cue ball, x for side and y for height
   private _movable: boolean = true; // Indicates whether the stick can be moved (rotation and power)
-  private _visible: boolean = true; // Indicates whether the stick is visible on the canvas
+  private _visible: boolean = true; // Indicates whether the stick is visible
 
   //------Properties------//
 
@@ -46,6 +37,16 @@ export class Stick {
     return Vector2.copy(this._position);
   }
 
+  /**
+   * Gets the point of the stick's image that sits at its position. The origin moves as
+   * the power changes, drawing the stick back from the cue ball.
+   *
+   * @returns {Vector2} A copy of the stick's origin.
+   */
+  public get origin(): Vector2 {
+    return Vector2.copy(this._origin);
+  }
+
   /**
    * Gets the current rotation angle of the stick in radians.
    *
@@ -64,6 +65,36 @@ export class Stick {
     return this._power;
   }
 
+  /**
+   * Gets where the cue tip will strike the cue ball. The x-coordinate is the side offset
+   * (negative is left english) and the y-coordinate is the height (negative is draw),
+   * both as fractions of the maximum tip offset.
+   *
+   * @returns {Vector2} A copy of the current tip offset.
+   */
+  public get tipOffset(): Vector2 {
+    return Vector2.copy(this._tipOffset);
+  }
+
+  /**
+   * Sets where the cue tip will strike the cue ball. Offsets outside the unit circle are
+   * pulled back onto it.
+   *
+   * @param {Vector2} value - The new tip offset.
+   */
+  public set tipOffset(value: Vector2) {
+    this._tipOffset = value.length > 1 ? value.mult(1 / value.length) : Vector2.copy(value);
+  }
+
+  /**
+   * Gets whether the stick can be moved (rotation and power).
+   *
+   * @returns {boolean} True if the stick can be moved, false otherwise.
+   */
+  public get movable(): boolean {
+    return this._movable;
+  }
+
   /**
    * Sets whether the stick can be moved (rotation and power).
    *
@@ -74,7 +105,7 @@ export class Stick {
   }
 
   /**
-   * Gets whether the stick is currently visible on the canvas.
+   * Gets whether the stick is currently visible.
    *
    * @returns {boolean} True if the stick is visible, false otherwise.
    */
@@ -83,7 +114,7 @@ export class Stick {
   }
 
   /**
-   * Sets the visibility of the stick on the canvas.
+   * Sets the visibility of the stick.
    *
    * @param {boolean} value - True to make the stick visible, false to hide it.
    */
@@ -112,24 +143,6 @@ export class Stick {
 
   //------Private Methods------//
 
-  /**
-   * Increases the power level of the shot by a configured amount per frame.
-   * It also moves the origin point of the stick forward.
-   */
-  private increasePower(): void {
-    this._power += stickConfig.powerToAddPerFrame;
-    this._origin.addToX(stickConfig.movementPerFrame);
-  }
-
-  /**
-   * Decreases the power level of the shot by a configured amount per frame.
-   * It also moves the origin point of the stick backward.
-   */
-  private decreasePower(): void {
-    this._power -= stickConfig.powerToAddPerFrame;
-    this._origin.addToX(-stickConfig.movementPerFrame);
-  }
-
   /**
    * Checks if the current power level is below the maximum allowed power.
    *
@@ -148,30 +161,6 @@ export class Stick {
     return this._power >= 0;
   }
 
-  /**
-   * Updates the power level of the shot based on player input.
-   * The power increases or decreases depending on which keys are pressed.
-   */
-  private updatePower(): void {
-
-    if (Keyboard.isDown(inputConfig.increaseShotPowerKey) && this.isLessThanMaxPower()) {
-      this.increasePower();
-    }
-    else if (Keyboard.isDown(inputConfig.decreaseShotPowerKey) && this.isMoreThanMinPower()) {
-      this.decreasePower();
-    }
-  }
-
-  /**
-   * Updates the rotation angle of the stick based on the current mouse position.
-   * The stick rotates to point towards the mouse cursor.
-   */
-  private updateRotation(): void {
-    const opposite: number = Mouse.position.y - this._position.y;
-    const adjacent: number = Mouse.position.x - this._position.x;
-    this._rotation = Math.atan2(opposite, adjacent); // Calculate the rotation angle using trigonometry
-  }
-
   //------Public Methods------//
 
   /**
@@ -185,7 +174,7 @@ export class Stick {
   }
 
   /**
-   * Shows the stick at a specified position, resets its origin and power,
+   * Shows the stick at a specified position, resets its origin, power and tip offset,
    * and makes it movable and visible again.
    *
    * @param {Vector2} position - The position where the stick should be shown.
@@ -193,37 +182,49 @@ export class Stick {
   public show(position: Vector2): void {
     this._position = position;
     this._origin = Vector2.copy(stickConfig.origin);
+    this._tipOffset = Vector2.zero;
     this._movable = true;
     this._visible = true;
   }
 
   /**
-   * Simulates the action of shooting the ball by playing the strike sound
-   * and adjusting the stick's origin point. The volume of the sound is based on the shot's power.
+   * Points the stick towards a target, such as the position of the mouse cursor.
+   *
+   * @param {Vector2} target - The position the stick should point towards.
    */
-  public shoot(): void {
-    this._origin = Vector2.copy(stickConfig.shotOrigin);
-    const volume: number = mapRange(this._power, 0, stickConfig.maxPower, 0, 1);
-    Assets.playSound(sounds.paths.strike, volume); // Play the strike sound with appropriate volume
+  public aimAt(target: Vector2): void {
+    const opposite: number = target.y - this._position.y;
+    const adjacent: number = target.x - this._position.x;
+    this._rotation = Math.atan2(opposite, adjacent); // Calculate the rotation angle using trigonometry
   }
 
   /**
-   * Updates the stick's rotation and power based on player input.
-   * This method is called on every frame when the stick is movable.
+   * Increases the power level of the shot by a configured amount, up to the maximum power.
+   * It also moves the origin point of the stick forward.
    */
-  public update(): void {
-    if (this._movable) {
-      this.updateRotation(); // Update the stick's rotation to follow the mouse
-      this.updatePower();    // Update the stick's power based on keyboard input
+  public increasePower(): void {
+    if (this.isLessThanMaxPower()) {
+      this._power += stickConfig.powerToAddPerFrame;
+      this._origin.addToX(stickConfig.movementPerFrame);
     }
   }
 
   /**
-   * Draws the stick on the canvas at its current position and rotation if it is visible.
+   * Decreases the power level of the shot by a configured amount, down to no power.
+   * It also moves the origin point of the stick backward.
    */
-  public draw(): void {
-    if (this._visible) {
-      Canvas2D.drawImage(this._sprite, this._position, this._rotation, this._origin); // Draw the stick on the canvas
+  public decreasePower(): void {
+    if (this.isMoreThanMinPower()) {
+      this._power -= stickConfig.powerToAddPerFrame;
+      this._origin.addToX(-stickConfig.movementPerFrame);
     }
   }
+
+  /**
+   * Simulates the action of shooting the ball by moving the stick's origin point
+   * through the cue ball.
+   */
+  public shoot(): void {
+    this._origin = Vector2.copy(stickConfig.shotOrigin);
+  }
 }
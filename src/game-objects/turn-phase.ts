@@ -0,0 +1,43 @@
+/**
+ * TurnPhase
+ *
+ * This enum defines the phases a turn can be in. Most turns are plain shots, but rotation games
+ * like 9-ball give the shot after the break special rules, and a push-out or an illegal break leaves
+ * a decision to the opponent.
+ */
+export enum TurnPhase {
+  /**
+   * Break
+   *
+   * The opening shot of the rack.
+   */
+  Break,
+
+  /**
+   * PushOutAllowed
+   *
+   * The shot right after the break, which the player may declare a push-out.
+   */
+  PushOutAllowed,
+
+  /**
+   * Shot
+   *
+   * A plain shot, played under the usual rules.
+   */
+  Shot,
+
+  /**
+   * PushOutDecision
+   *
+   * The opponent of a player who pushed out chooses who takes the next shot. No shot can be taken until they do.
+   */
+  PushOutDecision,
+
+  /**
+   * BreakDecision
+   *
+   * The opponent of a player who broke illegally chooses to play on or to re-rack and break. No shot can be taken until they do.
+   */
+  BreakDecision
+}
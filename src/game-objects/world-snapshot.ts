@@ -0,0 +1,85 @@
+import { IVector2 } from '../game.config.type';
+import { Color } from '../common/color';
+import { BallInHandZone } from '../rules/ball-in-hand-zone';
+import { IRuleSetSnapshot } from '../rules/rule-set-snapshot';
+import { IVerdict } from '../rules/verdict';
+import { GameMode } from './game-mode';
+import { TurnPhase } from './turn-phase';
+
+/**
+ * IBallSnapshot
+ *
+ * This interface describes a ball as plain data: where it lies, how it moves and spins, and how far it has
+ * sunk into a pocket.
+ */
+export interface IBallSnapshot {
+  color: Color;         // The color/type of the ball
+  number: number;       // The number printed on the ball, or 0 if it has none
+  position: IVector2;   // Where the ball lies
+  velocity: IVector2;   // The velocity of the ball
+  spin: IVector2;       // The rolling spin of the ball, as surface speed at the cloth
+  sideSpin: number;     // The side spin (english) of the ball
+  moving: boolean;      // Whether the ball is moving
+  visible: boolean;     // Whether the ball is on the table
+  pocketed: boolean;    // Whether the ball has dropped into a pocket
+  dropStart: IVector2;  // Where the ball dropped into the pocket, or null if it has not dropped
+  dropTarget: IVector2; // The centre of the pocket the ball is sinking into, or null if it has not dropped
+  dropProgress: number; // How far the ball has sunk into the pocket, from 0 to 1
+}
+
+/**
+ * IPlayerSnapshot
+ *
+ * This interface describes a player as plain data: their group of balls, their scores and what they have
+ * left of their visits at the table.
+ */
+export interface IPlayerSnapshot {
+  color: Color | null;      // The color of the player's group, or null if they have no group yet
+  matchScore: number;       // The score of the current match
+  points: number;           // The points scored in the current match
+  currentBreak: number;     // The points scored in the current visit at the table
+  overallScore: number;     // The score across the matches played
+  consecutiveFouls: number; // The number of fouls made in a row
+  visits: number;           // The number of visits left at the table, counting the current one
+}
+
+/**
+ * ITurnSnapshot
+ *
+ * This interface describes the state of the current turn as plain data. The balls are given by their index
+ * in the snapshot's balls.
+ */
+export interface ITurnSnapshot {
+  firstCollidedBall: number;        // The first ball the cue ball touched, or -1 if it touched none
+  pocketedBalls: number[];          // The balls pocketed on the turn, in the order they dropped
+  ballPockets: number[][];          // The pocket each pocketed ball dropped into, as pairs of ball and pocket
+  calledBall: number;               // The called ball, or -1 if no ball is called
+  calledPocket: number;             // The called pocket, or null if no pocket is called
+  cushionContacts: number[];        // The balls that hit a cushion after the first contact, once for each contact
+  isBreak: boolean;                 // Whether the turn is the break
+  ballInHand: boolean;              // Whether the cue ball is in hand
+  ballInHandZone: BallInHandZone;   // The zone the cue ball in hand may be placed in, which may also bound the shot
+  pushOut: boolean;                 // Whether the shot is declared a push-out
+  isValid: boolean;                 // Whether the turn is legal, once it is judged
+  verdict: IVerdict;                // The verdict on the turn, once it is judged
+}
+
+/**
+ * IWorldSnapshot
+ *
+ * This interface describes a game world as plain data, which can be copied to a web worker, written out as JSON
+ * and restored again: the balls, the players and their groups, whose turn it is, the state of the turn and what
+ * the rules remember. The AI trains by restoring the same snapshot before every simulated shot.
+ */
+export interface IWorldSnapshot {
+  gameMode: GameMode;              // The game mode the world is played under
+  balls: IBallSnapshot[];          // The balls, in the order of the game world's balls
+  cueBall: number;                 // The index of the cue ball in the balls
+  players: IPlayerSnapshot[];      // The players, in turn order
+  currentPlayerIndex: number;      // The index of the current player
+  turnPhase: TurnPhase;            // The phase of the current turn
+  turn: ITurnSnapshot;             // The state of the current turn
+  lastVerdict: IVerdict;           // The verdict on the previous turn
+  shotsTaken: number;              // The number of shots taken since the game world was created
+  rules: IRuleSetSnapshot;         // The state the rule set keeps from turn to turn
+}
@@ -11,6 +11,8 @@
 
 import { MenuActionType } from './menu/menu-action-type';
 import { IGameConfig } from './game.config.type';
+import { GameMode } from './game-objects/game-mode';
+import { GroupAssignment } from './rules/group-assignment';
 
 export const GameConfig: IGameConfig = {
 
@@ -20,11 +22,21 @@ export const GameConfig: IGameConfig = {
   // Flag to determine if the game sound effects are enabled (true = sound on, false = sound off)
   soundOn: true,
 
+  // The seed for the random numbers, so a game can be replayed exactly (null = take a seed from the clock).
+  // The seed can also be set from the page address, for example ?seed=1234
+  randomSeed: null,
+
+  // Flag to show the debug overlay, with the random seed and the shot number, from the start of the game
+  debugOverlay: false,
+
+  // The pool game to play, chosen from the main menu
+  gameMode: GameMode.Blackball,
+
   // The delay (in milliseconds) after a shot is made before the stick is hidden
   timeoutToHideStickAfterShot: 500,
 
-  // The delay (in milliseconds) after a ball is pocketed before the ball is hidden
-  timeoutToHideBallAfterPocket: 100,
+  // The delay (in milliseconds) after a ball is pocketed before the ball is hidden, while it sinks into the pocket
+  timeoutToHideBallAfterPocket: 300,
 
   // The duration (in milliseconds) for which the loading screen is displayed before the game starts
   loadingScreenTimeout: 5000,
@@ -59,6 +71,123 @@ export const GameConfig: IGameConfig = {
         font: '200px Impact',          // Font style and size
         alignment: 'top'               // Alignment of the text
       }
+    ],
+    // Label of the debug overlay, showing the random seed and the shot number
+    debugInfo: {
+      position: { x: 20, y: 815 },   // Position on the screen, at the bottom left corner
+      color: '#FFFFFF',              // Text color
+      font: '20px Impact',           // Font style and size
+      alignment: 'left',             // Alignment of the text
+      text: 'SEED ',                 // Text content (the seed and shot number are appended dynamically)
+    },
+    // Text put between the seed and the shot number in the debug overlay
+    debugShotText: '  SHOT ',
+    // Labels for the push-out after the break and the options after an illegal break, at the bottom centre of the screen
+    pushOutOffer: {
+      position: { x: 750, y: 815 },  // Position on the screen, at the bottom centre
+      color: '#FFFFFF',              // Text color
+      font: '20px Impact',           // Font style and size
+      alignment: 'center',           // Alignment of the text
+      text: 'PRESS P TO PUSH OUT',   // Text content
+    },
+    pushOut: {
+      position: { x: 750, y: 815 },  // Position on the screen, at the bottom centre
+      color: '#FECA34',              // Text color
+      font: '20px Impact',           // Font style and size
+      alignment: 'center',           // Alignment of the text
+      text: 'PUSH OUT',              // Text content
+    },
+    pushOutDecision: {
+      position: { x: 750, y: 815 },  // Position on the screen, at the bottom centre
+      color: '#FECA34',              // Text color
+      font: '20px Impact',           // Font style and size
+      alignment: 'center',           // Alignment of the text
+      text: 'PUSH OUT - TAKE THE SHOT (Y) OR PASS IT BACK (N)', // Text content
+    },
+    breakDecision: {
+      position: { x: 750, y: 815 },  // Position on the screen, at the bottom centre
+      color: '#FECA34',              // Text color
+      font: '20px Impact',           // Font style and size
+      alignment: 'center',           // Alignment of the text
+      text: 'ILLEGAL BREAK - PLAY ON (Y) OR RE-RACK AND BREAK (N)', // Text content
+    },
+    // Label asking for the call of a shot, at the bottom centre of the screen
+    callShot: {
+      position: { x: 750, y: 815 },  // Position on the screen, at the bottom centre
+      color: '#FFFFFF',              // Text color
+      font: '20px Impact',           // Font style and size
+      alignment: 'center',           // Alignment of the text
+      text: 'RIGHT CLICK A BALL AND A POCKET TO CALL THE SHOT', // Text content
+    },
+    // Label shown while the AI thinks about its shot, at the bottom centre of the screen
+    aiThinking: {
+      position: { x: 750, y: 815 },  // Position on the screen, at the bottom centre
+      color: '#FECA34',              // Text color
+      font: '20px Impact',           // Font style and size
+      alignment: 'center',           // Alignment of the text
+      text: 'THINKING...',           // Text content
+    },
+    // Label showing the visits the current player has left, below the current player's label
+    visits: {
+      position: { x: 640, y: 340 }, // Position on the screen (x, y coordinates)
+      color: '#126736',             // Text color in hexadecimal format
+      font: '40px Impact',          // Font style and size
+      alignment: 'top',             // Alignment of the text relative to the position
+      text: 'VISITS: ',             // Text content (the number of visits is appended dynamically)
+    },
+    // Labels showing each player's points in straight pool and snooker, in place of the match scores
+    points: [
+      {
+        position: { x: 420, y: 50 },  // Position for Player 1's points, on the baseline of the text
+        color: '#FFFFFF',             // Text color
+        font: '26px Impact',          // Font style and size
+        alignment: 'left',            // Alignment of the text
+        text: 'POINTS ',              // Text content (the points are appended dynamically)
+      },
+      {
+        position: { x: 932, y: 50 },  // Position for Player 2's points, on the baseline of the text
+        color: '#FFFFFF',             // Text color
+        font: '26px Impact',          // Font style and size
+        alignment: 'left',            // Alignment of the text
+        text: 'POINTS ',              // Text content (the points are appended dynamically)
+      }
+    ],
+    // Label showing the points the current player has scored in their visit, in snooker
+    currentBreak: {
+      position: { x: 1100, y: 50 },  // Position on the screen, on the baseline of the text
+      color: '#FFFFFF',              // Text color
+      font: '26px Impact',           // Font style and size
+      alignment: 'left',             // Alignment of the text
+      text: 'BREAK ',                // Text content (the points of the break are appended dynamically)
+    },
+    // Label showing the points left on the table, in snooker
+    pointsRemaining: {
+      position: { x: 1240, y: 50 },  // Position on the screen, on the baseline of the text
+      color: '#FFFFFF',              // Text color
+      font: '26px Impact',           // Font style and size
+      alignment: 'left',             // Alignment of the text
+      text: 'REMAINING ',            // Text content (the points left are appended dynamically)
+    },
+    // Label listing the fouls of the previous turn, at the bottom right corner of the screen
+    foul: {
+      position: { x: 1480, y: 815 }, // Position on the screen, at the bottom right corner
+      color: '#FF5A4F',              // Text color
+      font: '20px Impact',           // Font style and size
+      alignment: 'right',            // Alignment of the text
+      text: 'FOUL: ',                // Text content (the reasons of the fouls are appended dynamically)
+    },
+    // Descriptions of the fouls, in the order of the FoulType enum
+    foulReasons: [
+      'NO BALL HIT',
+      'WRONG BALL FIRST',
+      'SCRATCH',
+      'NO RAIL AFTER CONTACT',
+      'WRONG GROUP POCKETED',
+      '8-BALL EARLY',
+      '8-BALL NOT CALLED',
+      'ILLEGAL BREAK',
+      'BALL NOT ON POCKETED',
+      'ILLEGAL OPENING BREAK',
     ]
   },
 
@@ -90,13 +219,110 @@ export const GameConfig: IGameConfig = {
   // Initial position of the eight ball when the game starts
   eightBallPosition: { x: 1090, y: 413 },
 
+  // Positions of the 15 spots of a triangle rack, row by row from the apex (the 5th spot is the centre of the rack)
+  triangleRackPositions: [
+    { x: 1022, y: 413 },
+    { x: 1056, y: 393 }, { x: 1056, y: 433 },
+    { x: 1090, y: 374 }, { x: 1090, y: 413 }, { x: 1090, y: 452 },
+    { x: 1126, y: 354 }, { x: 1126, y: 393 }, { x: 1126, y: 433 }, { x: 1126, y: 472 },
+    { x: 1162, y: 335 }, { x: 1162, y: 374 }, { x: 1162, y: 413 }, { x: 1162, y: 452 }, { x: 1162, y: 491 },
+  ],
+
+  // Positions of the 9 spots of a diamond rack, row by row from the apex (the 5th spot is the centre of the rack)
+  diamondRackPositions: [
+    { x: 1022, y: 413 },
+    { x: 1056, y: 393 }, { x: 1056, y: 433 },
+    { x: 1090, y: 374 }, { x: 1090, y: 413 }, { x: 1090, y: 452 },
+    { x: 1126, y: 393 }, { x: 1126, y: 433 },
+    { x: 1162, y: 413 },
+  ],
+
+  // Position of the foot spot, at the apex of the rack, where pocketed balls are spotted again
+  footSpotPosition: { x: 1022, y: 413 },
+
+  // X-coordinate of the head string, through the cue ball's starting position; the kitchen lies behind it
+  headStringX: 413,
+
+  // Positions of the 15 reds of a snooker frame on the snooker table, row by row from the apex just behind the pink spot
+  snookerRedBallsPositions: [
+    { x: 1673, y: 619 },
+    { x: 1707, y: 599 }, { x: 1707, y: 639 },
+    { x: 1741, y: 580 }, { x: 1741, y: 619 }, { x: 1741, y: 658 },
+    { x: 1775, y: 560 }, { x: 1775, y: 599 }, { x: 1775, y: 639 }, { x: 1775, y: 678 },
+    { x: 1809, y: 541 }, { x: 1809, y: 580 }, { x: 1809, y: 619 }, { x: 1809, y: 658 }, { x: 1809, y: 697 },
+  ],
+
+  // Spots of the six colours of snooker on the snooker table, where they start the frame and are spotted again
+  snookerSpots: {
+    yellow: { x: 617, y: 789 },  // Right corner of the D, seen from the baulk cushion
+    green: { x: 617, y: 449 },   // Left corner of the D, seen from the baulk cushion
+    brown: { x: 617, y: 619 },   // Middle of the baulk line
+    blue: { x: 1125, y: 619 },   // Centre of the table
+    pink: { x: 1634, y: 619 },   // Halfway between the centre of the table and the top cushion
+    black: { x: 1976, y: 619 },  // Close to the top cushion
+  },
+
+  // Initial position of the cue ball in snooker, inside the D behind the brown
+  snookerCueBallPosition: { x: 557, y: 619 },
+
+  // X-coordinate of the baulk line of snooker, through the brown, yellow and green spots, along the line on the cloth
+  baulkLineX: 617,
+
+  // Radius of the D, the half circle behind the baulk line centred on the brown spot
+  dRadius: 170,
+
+  // Rules specific to blackball, as played on UK pub tables
+  blackballRules: {
+    twoVisits: true,    // A foul gives the opponent two visits, with the cue ball in hand only if it was pocketed
+    cushionChecks: true // A ball must reach a cushion after the first contact, and the break must drive four balls to the cushions
+  },
+
+  // Rules of rotation games such as 9-ball
+  rotationRules: {
+    pushOutAfterBreak: true,   // The shot right after the break may be declared a push-out
+    consecutiveFoulsToLose: 3  // Three fouls in a row lose the rack
+  },
+
+  // Scoring and opening break of straight pool (14.1 continuous)
+  straightPoolRules: {
+    targetScore: 100,            // The first player to 100 points wins
+    foulPenalty: 1,              // A foul costs one point
+    consecutiveFouls: 3,         // Three fouls in a row cost a further penalty
+    consecutiveFoulsPenalty: 15, // The further penalty is fifteen points
+    breakCushionBalls: 2,        // An opening break making no call must drive two object balls and the cue ball to the cushions
+    breakFoulPenalty: 2          // An illegal opening break costs two points
+  },
+
+  // Scoring of snooker
+  snookerRules: {
+    minimumFoulPoints: 4 // A foul gives the opponent at least four points, or the value of the highest ball involved
+  },
+
+  // Rules of blackball, 8-ball and 9-ball requiring balls to reach the cushions
+  cushionRules: {
+    railAfterContact: true, // A ball must be pocketed or reach a cushion after the first contact
+    breakCushionBalls: 4    // A break pocketing no ball must drive four object balls to the cushions
+  },
+
+  // Rules giving the players of blackball and 8-ball their groups
+  groupRules: {
+    assignment: GroupAssignment.OpenTable // The table stays open after the break, and a legal pot decides the groups
+  },
+
+  // Call-shot rules of 8-ball, where the shooter nominates the ball and the pocket of their shot
+  callShotRules: {
+    on: false,       // Shots are not called
+    everyBall: true  // Once shots are called, every shot after the break is, not only those at the 8-ball
+  },
+
   // Configuration for the match score display, including the positions of the score digits and spacing between them
   matchScore: {
     scoresPositions: [
       { x: 420, y: 27 }, // Position for Player 1's match score
       { x: 932, y: 27 }  // Position for Player 2's match score
     ],
-    unitMargin: 20 // Margin between score digits to allow for visual separation
+    unitMargin: 20, // Margin between score digits to allow for visual separation
+    ballsOnTablePosition: { x: 420, y: 27 } // Position of the row of balls left on the table in 9-ball
   },
 
   // Configuration for the sprite images used in the game, including the base path and specific file names
@@ -105,6 +331,7 @@ export const GameConfig: IGameConfig = {
     paths: {
       menuBackground: 'main_menu_background.png',  // Background image for the main menu
       table: 'spr_background4.png',                // Image for the pool table background
+      snookerTable: 'spr_background4.png',         // Image for the snooker table background
       cueBall: 'spr_ball2.png',                    // Image for the cue ball
       redBall: 'spr_redBall2.png',                 // Image for the red ball
       yellowBall: 'spr_yellowBall2.png',           // Image for the yellow ball
@@ -148,14 +375,33 @@ export const GameConfig: IGameConfig = {
 
   // Physics settings, including friction and energy loss during collisions, that affect ball movement
   physics: {
-    friction: 0.018,       // Coefficient of friction affecting the ball's movement across the table
-    collisionLoss: 0.018,  // Energy loss coefficient when balls collide, affecting the post-collision velocity
+    timestep: 1000 / 60,   // Length of one fixed simulation step (ms), independent of the monitor's refresh rate
+    subSteps: 4,           // Sub-steps per simulation step, applying the cloth friction in finer increments
+    maxStepsPerFrame: 10,  // Most simulation steps run per rendered frame, dropping time after long stalls
+    maxImpactsPerSubStep: 64, // Most collisions resolved in one sub-step, enough for every contact of a break shot
+    gravity: 1.5,          // Gravity in pixels per step squared (9.81 m/s² on a table 1386 pixels long, about 2.54 m)
+    slidingFriction: 0.2,  // Sliding friction between a slipping ball and the cloth, turning slip into draw or follow
+    rollingFriction: 0.01, // Rolling resistance of the cloth, a lag shot rolling at 9 travels about two table lengths
+    spinningFriction: 0.01, // Friction wearing off the side spin (english) while the ball travels on the cloth
+    ballRestitution: 0.95, // Share of their closing speed two balls separate with after a collision
+    ballFrictionSlow: 0.11, // Friction between balls rubbing slowly at the contact, throwing soft cut shots the most
+    ballFrictionFast: 0.02, // Friction between balls rubbing quickly at the contact, throwing hard cut shots less
+    ballFrictionSpeed: 18, // Slip speed at the contact (about 2 m/s) at which the ball friction reaches its fast value
+    cushionRestitutionSlow: 0.9, // Share of the speed into a cushion kept by a soft hit
+    cushionRestitutionFast: 0.7, // Share of the speed into a cushion kept by a hard hit
+    cushionRestitutionSpeed: 40, // Speed into a cushion at which the hit counts as hard
+    cushionFriction: 0.2,  // Friction between ball and cushion rubber, shortening shallow banks and bending english
   },
 
   // Table settings, including the width of the cushions and the radius of the pockets
   table: {
+    size: { x: 1500, y: 825 }, // Size of the table, filling the screen
+    sprite: 'table',   // Image of the table, in the sprite paths
     cushionWidth: 57,  // Width of the cushions surrounding the table, affecting ball deflection
-    pocketRadius: 48,  // Radius of the pockets, determining how easily balls can be pocketed
+    pocketMouthRadius: 48, // Radius of the pocket mouths, with the back of the pocket at their edge
+    pocketDropRadius: 24,  // Radius around a pocket's centre within which a ball is over the hole
+    pocketCaptureSpeed: 25, // Fastest a ball can enter straight and still drop; faster balls rattle
+    pocketRattleRestitution: 0.5, // Share of its speed a ball keeps when it hits the back of a pocket
     pocketsPositions: [ // Positions of the six pockets on the table (four corners and two sides)
       { x: 62, y: 62 },     // Top-left corner pocket
       { x: 750, y: 32 },    // Top-center side pocket
@@ -163,6 +409,41 @@ export const GameConfig: IGameConfig = {
       { x: 62, y: 762 },    // Bottom-left corner pocket
       { x: 750, y: 794 },   // Bottom-center side pocket
       { x: 1435, y: 762 }   // Bottom-right corner pocket
+    ],
+    cushions: [ // Outlines of the six cushions, each running from jaw to jaw along the cushion's nose
+      [{ x: 85, y: 32 }, { x: 110, y: 57 }, { x: 706, y: 57 }, { x: 714, y: 30 }],         // Top-left cushion
+      [{ x: 786, y: 30 }, { x: 794, y: 57 }, { x: 1390, y: 57 }, { x: 1415, y: 32 }],      // Top-right cushion
+      [{ x: 1468, y: 85 }, { x: 1443, y: 110 }, { x: 1443, y: 715 }, { x: 1468, y: 740 }], // Right cushion
+      [{ x: 1415, y: 793 }, { x: 1390, y: 768 }, { x: 794, y: 768 }, { x: 786, y: 795 }],  // Bottom-right cushion
+      [{ x: 714, y: 795 }, { x: 706, y: 768 }, { x: 110, y: 768 }, { x: 85, y: 793 }],     // Bottom-left cushion
+      [{ x: 32, y: 740 }, { x: 57, y: 715 }, { x: 57, y: 110 }, { x: 32, y: 85 }],         // Left cushion
+    ]
+  },
+
+  // Settings of the snooker table, laid out like the pool table but half as large again, so the balls are smaller beside it
+  snookerTable: {
+    size: { x: 2250, y: 1237.5 }, // Size of the table, drawn two thirds as large to fit the screen
+    sprite: 'snookerTable', // Image of the table, in the sprite paths
+    cushionWidth: 85.5, // Width of the cushions surrounding the table, affecting ball deflection
+    pocketMouthRadius: 72, // Radius of the pocket mouths, with the back of the pocket at their edge
+    pocketDropRadius: 36,  // Radius around a pocket's centre within which a ball is over the hole
+    pocketCaptureSpeed: 25, // Fastest a ball can enter straight and still drop; faster balls rattle
+    pocketRattleRestitution: 0.5, // Share of its speed a ball keeps when it hits the back of a pocket
+    pocketsPositions: [ // Positions of the six pockets on the table (four corners and two sides)
+      { x: 93, y: 93 },       // Top-left corner pocket
+      { x: 1125, y: 48 },     // Top-center side pocket
+      { x: 2152.5, y: 93 },   // Top-right corner pocket
+      { x: 93, y: 1143 },     // Bottom-left corner pocket
+      { x: 1125, y: 1191 },   // Bottom-center side pocket
+      { x: 2152.5, y: 1143 }  // Bottom-right corner pocket
+    ],
+    cushions: [ // Outlines of the six cushions, each running from jaw to jaw along the cushion's nose
+      [{ x: 127.5, y: 48 }, { x: 165, y: 85.5 }, { x: 1059, y: 85.5 }, { x: 1071, y: 45 }],         // Top-left cushion
+      [{ x: 1179, y: 45 }, { x: 1191, y: 85.5 }, { x: 2085, y: 85.5 }, { x: 2122.5, y: 48 }],      // Top-right cushion
+      [{ x: 2202, y: 127.5 }, { x: 2164.5, y: 165 }, { x: 2164.5, y: 1072.5 }, { x: 2202, y: 1110 }], // Right cushion
+      [{ x: 2122.5, y: 1189.5 }, { x: 2085, y: 1152 }, { x: 1191, y: 1152 }, { x: 1179, y: 1192.5 }],  // Bottom-right cushion
+      [{ x: 1071, y: 1192.5 }, { x: 1059, y: 1152 }, { x: 165, y: 1152 }, { x: 127.5, y: 1189.5 }],     // Bottom-left cushion
+      [{ x: 48, y: 1110 }, { x: 85.5, y: 1072.5 }, { x: 85.5, y: 165 }, { x: 48, y: 127.5 }],         // Left cushion
     ]
   },
 
@@ -172,7 +453,22 @@ export const GameConfig: IGameConfig = {
     origin: { x: 25, y: 25 }, // Origin point for rendering the ball sprite (center of the ball)
     minVelocityLength: 0.05, // Minimum velocity length below which the ball is considered stationary
     maxExpectedVelocity: 120, // Maximum expected velocity of a ball, used for normalizing velocities
-    maxExpectedCollisionForce: 70 // Maximum expected collision force, used for sound and visual effects
+    maxExpectedCollisionForce: 70, // Maximum expected collision force, used for sound and visual effects
+    droppedScale: 0.4,      // How much smaller a ball is drawn once it has sunk into a pocket
+    numberedColors: [       // Colors of the numbered balls 1 to 8 (the stripes 9 to 15 repeat 1 to 7)
+      '#F2C12E', // 1 yellow
+      '#1F4FA8', // 2 blue
+      '#C8252C', // 3 red
+      '#5B2C83', // 4 purple
+      '#EE7A1F', // 5 orange
+      '#177245', // 6 green
+      '#7A1F24', // 7 maroon
+      '#1E1E1E', // 8 black
+    ],
+    numberedBaseColor: '#F4F1E6', // Color of the white band of a stripe and of the number disc
+    numberFont: 'Arial',    // Font family of the numbers on the balls
+    numberFontSize: 13,     // Font size of the numbers on a full-size ball
+    numberColor: '#1E1E1E'  // Color of the numbers on the balls
   },
 
   // Stick settings, including origin points, power increments, and maximum power for shots
@@ -181,7 +477,46 @@ export const GameConfig: IGameConfig = {
     shotOrigin: { x: 950, y: 11 }, // Origin point for calculating shot direction
     powerToAddPerFrame: 1,     // Amount of power added per frame when charging a shot
     movementPerFrame: 3,       // Amount of movement per frame when adjusting the stick's angle
-    maxPower: 50               // Maximum power that can be applied to a shot
+    maxPower: 50,              // Maximum power that can be applied to a shot
+    maxTipOffset: 0.5,         // Furthest the cue tip can strike from the centre, as a fraction of the ball's radius
+    tipOffsetPerFrame: 0.04    // Amount the tip offset moves per frame while an arrow key is held
+  },
+
+  // Settings of the cue's animation while the AI thinks: it sways around its aim and strokes back and forth
+  thinkingCue: {
+    swayAngle: 0.12,    // Furthest the cue sways from its aim, in radians
+    swayPeriod: 2400,   // Time (ms) of one sway from side to side and back
+    strokeLength: 40,   // Furthest the cue draws back from the cue ball, in pixels
+    strokePeriod: 900,  // Time (ms) of one stroke back and forth
+  },
+
+  // Tip indicator settings, drawing where the cue tip will strike the cue ball
+  tipIndicator: {
+    position: { x: 1300, y: 796 }, // Centre of the indicator on the bottom rail
+    radius: 20,                    // Radius of the cue ball drawn by the indicator
+    tipRadius: 5,                  // Radius of the dot marking the tip position
+    ballColor: '#F4F4F4',          // Fill color of the cue ball
+    tipColor: '#B62A2F'            // Fill color of the tip dot
+  },
+
+  // Call marker settings, ringing the ball and the pocket called for a shot
+  callMarker: {
+    ballRadius: 22,                // Radius of the ring around the called ball
+    pocketRadius: 34,              // Radius of the ring around the called pocket
+    lineWidth: 3,                  // Width of the rings' lines
+    color: '#F2C94C'               // Stroke color of the rings
+  },
+
+  // Kitchen zone settings, shading the area behind the head string while the cue ball in hand may only be placed there
+  kitchenZone: {
+    color: 'rgba(255, 255, 255, 0.12)' // Fill color of the shading
+  },
+
+  // Markings drawn on the cloth of the snooker table, under the balls
+  snookerMarkings: {
+    lineWidth: 3,                      // Width of the baulk line and of the D
+    spotRadius: 5,                     // Radius of the spots of the colours
+    color: 'rgba(255, 255, 255, 0.5)'  // Color of the markings
   },
 
   // Input settings, mapping mouse buttons and keys to specific actions in the game
@@ -191,7 +526,16 @@ export const GameConfig: IGameConfig = {
     mousePlaceBallButton: 0, // Mouse button used to place the ball (0 = left button)
     increaseShotPowerKey: 87, // Keyboard key to increase shot power (87 = W key)
     decreaseShotPowerKey: 83, // Keyboard key to decrease shot power (83 = S key)
-    toggleMenuKey: 27        // Keyboard key to toggle the game menu (27 = Escape key)
+    tipOffsetUpKey: 38,      // Keyboard key to move the cue tip up for follow (38 = Up arrow)
+    tipOffsetDownKey: 40,    // Keyboard key to move the cue tip down for draw (40 = Down arrow)
+    tipOffsetLeftKey: 37,    // Keyboard key to move the cue tip left for left english (37 = Left arrow)
+    tipOffsetRightKey: 39,   // Keyboard key to move the cue tip right for right english (39 = Right arrow)
+    toggleMenuKey: 27,       // Keyboard key to toggle the game menu (27 = Escape key)
+    toggleDebugOverlayKey: 68, // Keyboard key to toggle the debug overlay (68 = D key)
+    pushOutKey: 80,          // Keyboard key to declare a push-out (80 = P key)
+    acceptKey: 89,           // Keyboard key to play on after a push-out or an illegal break (89 = Y key)
+    declineKey: 78,          // Keyboard key to pass the shot back after a push-out or re-rack after an illegal break (78 = N key)
+    mouseCallButton: 2       // Mouse button used to call the ball and the pocket of a shot (2 = right button)
   },
 
   // Main menu settings, including labels, buttons, and sub-menu configurations
@@ -230,6 +574,12 @@ export const GameConfig: IGameConfig = {
         sprite: 'onePlayerButton',             // Sprite image for the button
         spriteOnHover: 'onePlayerButtonHovered', // Sprite image when the button is hovered
       },
+      {
+        action: MenuActionType.GoToSubMenu,    // Action for navigating to a sub-menu
+        value: 1,                              // Sub-menu index or ID
+        position: { x: 200, y: 600 },          // Position on the screen
+        text: 'Choose Game',                   // Text of the button
+      },
       {
         action: MenuActionType.ToggleSound,    // Action for toggling sound on/off
         position: { x: 1430, y: 10 },          // Position on the screen
@@ -302,12 +652,87 @@ export const GameConfig: IGameConfig = {
           },
         ],
 
+        // Nested sub-menus within this sub-menu (empty array if no further sub-menus exist)
+        subMenus: []
+      },
+      {
+        labels: [
+          {
+            text: 'Choose Game',             // Title of the sub-menu
+            position: { x: 200, y: 80 },     // Position on the screen
+            font: '70px Bookman',            // Font style and size
+            color: 'white',                  // Text color
+            alignment: 'left',               // Alignment of the text relative to the position
+          },
+          {
+            text: `© ${new Date().getFullYear()} Jordan Bandur`, // Dynamic copyright notice
+            position: { x: 1250, y: 800 }, // Position on the screen
+            font: '20px Bookman',           // Font style and size
+            color: 'white',                 // Text color
+            alignment: 'left',              // Alignment of the text relative to the position
+          }
+        ],
+
+        // Buttons choosing the pool game, each going back to the main menu once clicked
+        buttons: [
+          {
+            action: MenuActionType.GoToPreviousMenu, // Action to go back to the previous menu
+            position: { x: 100, y: 150 },            // Position on the screen
+            sprite: 'backButton',                    // Sprite image for the button
+            spriteOnHover: 'backButtonHovered',      // Sprite image when the button is hovered
+          },
+          {
+            action: MenuActionType.SelectGameMode,   // Action for choosing the pool game
+            position: { x: 200, y: 150 },            // Position on the screen
+            value: GameMode.Blackball,               // Game mode (UK blackball)
+            text: 'Blackball',                       // Text of the button
+          },
+          {
+            action: MenuActionType.SelectGameMode,   // Action for choosing the pool game
+            position: { x: 200, y: 250 },            // Position on the screen
+            value: GameMode.EightBall,               // Game mode (American 8-ball)
+            text: '8-Ball',                          // Text of the button
+          },
+          {
+            action: MenuActionType.SelectGameMode,   // Action for choosing the pool game
+            position: { x: 200, y: 350 },            // Position on the screen
+            value: GameMode.NineBall,                // Game mode (9-ball)
+            text: '9-Ball',                          // Text of the button
+          },
+          {
+            action: MenuActionType.SelectGameMode,   // Action for choosing the pool game
+            position: { x: 200, y: 450 },            // Position on the screen
+            value: GameMode.StraightPool,            // Game mode (straight pool, 14.1 continuous)
+            text: 'Straight Pool',                   // Text of the button
+          },
+          {
+            action: MenuActionType.SelectGameMode,   // Action for choosing the pool game
+            position: { x: 200, y: 550 },            // Position on the screen
+            value: GameMode.Snooker,                 // Game mode (snooker, with 15 reds and six colours)
+            text: 'Snooker',                         // Text of the button
+          },
+          {
+            action: MenuActionType.ToggleSound,      // Action for toggling sound on/off
+            position: { x: 1430, y: 10 },            // Position on the screen
+            sprite: 'muteButton',                    // Sprite image for the button
+            spriteOnHover: 'muteButtonHovered',      // Sprite image when the button is hovered
+          },
+        ],
+
         // Nested sub-menus within this sub-menu (empty array if no further sub-menus exist)
         subMenus: []
       }
     ]
   },
 
+  // Look of the menu buttons drawn as text, such as the buttons choosing the game mode
+  menuTextButton: {
+    font: '60px Bookman',   // Font style and size of the button text
+    height: 70,             // Height of the button, the line height of its text
+    color: 'white',         // Text color
+    colorOnHover: '#FECA34' // Text color when the button is hovered over
+  },
+
   // Cursor settings, defining the cursor appearance for different interactions
   cursor: {
     default: 'default',   // Default cursor appearance (typically an arrow)
@@ -322,10 +747,16 @@ export const GameConfig: IGameConfig = {
     ballDistanceBonus: 1 / 5800,   // Bonus for AI based on proximity of the ball to the target
     validTurnBonus: 5000,          // Bonus for AI when it makes a valid turn
     pocketedBallBonus: 2000,       // Bonus for AI when it pockets a ball
-    invalidTurnPenalty: 3000,      // Penalty for AI when it makes an invalid turn
+    invalidTurnPenalty: 3000,      // Penalty for AI for each foul it commits on its turn
     gameWonBonus: 50000,           // Bonus for AI when it wins a game
     gameLossPenalty: 50000,        // Penalty for AI when it loses a game
     shotPowerMutationVariance: 15, // Variance in shot power to introduce randomness in AI behavior
     minShotPower: 10,              // Minimum shot power the AI can apply
+    shotPlanner: true,             // Try the shots planned with ghost-ball geometry before searching at random
+    maxCutAngle: 1.3,              // Plan no cut wider than about 75 degrees
+    shotReach: 17.8,               // A ball struck with power 1 rolls about 18 pixels, and four times as far with twice the power
+    objectBallTransfer: 0.51,      // An object ball hit full on rolls about half as far as the cue ball would have, as it slides at first
+    pocketSpeedMargin: 150,        // Strike planned shots hard enough for the object ball to roll 150 pixels past the pocket
+    workerScript: 'ai-worker.js',  // Script of the web worker the AI searches for its shots in, built next to the game's bundle
   },
 };
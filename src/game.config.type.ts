@@ -1,4 +1,6 @@
 import { MenuActionType } from './menu/menu-action-type';
+import { GameMode } from './game-objects/game-mode';
+import { GroupAssignment } from './rules/group-assignment';
 
 /**
  * IGameConfig
@@ -12,6 +14,9 @@ import { MenuActionType } from './menu/menu-action-type';
 export interface IGameConfig {
   gameSize: IVector2;                      // Dimensions of the game window (width x height)
   soundOn: boolean;                        // Flag to indicate if sound is enabled
+  randomSeed: number | null;               // Seed for the random numbers, or null to take one from the clock
+  debugOverlay: boolean;                   // Flag to show the debug overlay (seed and shot number) when the game starts
+  gameMode: GameMode;                      // The pool game to play, deciding the rack and the groups of balls
   timeoutToHideStickAfterShot: number;     // Delay before hiding the cue stick after a shot (ms)
   timeoutToHideBallAfterPocket: number;    // Delay before hiding the ball after it is pocketed (ms)
   loadingScreenTimeout: number;            // Duration of the loading screen (ms)
@@ -22,15 +27,38 @@ export interface IGameConfig {
   yellowBallsPositions: IVector2[];        // Positions of yellow balls on the table (array of x, y coordinates)
   cueBallPosition: IVector2;               // Initial position of the cue ball (x, y coordinates)
   eightBallPosition: IVector2;             // Initial position of the eight ball (x, y coordinates)
+  triangleRackPositions: IVector2[];       // Positions of the 15 spots of a triangle rack, row by row from the apex
+  diamondRackPositions: IVector2[];        // Positions of the 9 spots of a diamond rack, row by row from the apex
+  footSpotPosition: IVector2;              // Position of the foot spot, where pocketed balls are spotted again
+  headStringX: number;                     // X-coordinate of the head string, the line in front of the kitchen
+  snookerRedBallsPositions: IVector2[];    // Positions of the 15 reds of a snooker frame, row by row from the apex
+  snookerSpots: ISnookerSpotsConfig;       // Spots of the six colours of snooker, where they start and are spotted again
+  snookerCueBallPosition: IVector2;        // Initial position of the cue ball in snooker, inside the D
+  baulkLineX: number;                      // X-coordinate of the baulk line of snooker, through the brown, yellow and green spots
+  dRadius: number;                         // Radius of the D, the half circle behind the baulk line centred on the brown spot
+  blackballRules: IBlackballRulesConfig;   // Configuration for the rules specific to blackball, such as the two-visit penalty
+  rotationRules: IRotationRulesConfig;     // Configuration for the rules of rotation games, such as push-outs
+  straightPoolRules: IStraightPoolRulesConfig; // Configuration for the scoring of straight pool
+  snookerRules: ISnookerRulesConfig;       // Configuration for the scoring of snooker
+  cushionRules: ICushionRulesConfig;       // Configuration for the rules requiring balls to reach the cushions
+  callShotRules: ICallShotRulesConfig;     // Configuration for calling the ball and pocket of a shot in 8-ball
+  groupRules: IGroupRulesConfig;           // Configuration for giving the players their groups in blackball and 8-ball
   matchScore: IMatchScoreConfig;           // Configuration for displaying match scores
   sprites: IAssetsConfig;                  // Configuration for sprite assets (images)
   sounds: IAssetsConfig;                   // Configuration for sound assets (audio files)
-  physics: IPhysicsConfig;                 // Configuration for game physics, such as friction and collision loss
+  physics: IPhysicsConfig;                 // Configuration for game physics, such as friction and restitution
   table: ITableConfig;                     // Configuration for the pool table, including cushion width and pocket radius
+  snookerTable: ITableConfig;              // Configuration for the larger snooker table, with the same layout as the pool table
   ball: IBallConfig;                       // Configuration for ball properties, such as diameter and velocity
   stick: IStickConfig;                     // Configuration for the cue stick, including origin and power settings
+  thinkingCue: IThinkingCueConfig;         // Configuration for the animation of the cue while the AI thinks
+  tipIndicator: ITipIndicatorConfig;       // Configuration for the HUD showing where the cue tip strikes the cue ball
+  callMarker: ICallMarkerConfig;           // Configuration for the rings marking the called ball and pocket
+  kitchenZone: IKitchenZoneConfig;         // Configuration for the shading of the kitchen while the cue ball is placed there
+  snookerMarkings: ISnookerMarkingsConfig; // Configuration for the baulk line, the D and the spots drawn on the snooker table
   input: IInputConfig;                     // Configuration for user input controls, such as key bindings
   mainMenu: IMenuConfig;                   // Configuration for the main menu structure and sub-menus
+  menuTextButton: IMenuTextButtonConfig;   // Configuration for the look of menu buttons drawn as text
   cursor: ICursorConfig;                   // Configuration for cursor behavior, such as default and button states
   ai: IAIConfig;                           // Configuration for AI behavior and settings
 }
@@ -55,6 +83,110 @@ export interface IVector2 {
 export interface ILabelsConfig {
   currentPlayer: ILabel;      // Label for displaying the current player's turn
   overalScores: ILabel[];     // Array of labels for displaying overall scores of players
+  debugInfo: ILabel;          // Label of the debug overlay, showing the random seed and the shot number
+  debugShotText: string;      // Text between the random seed and the shot number in the debug overlay
+  pushOutOffer: ILabel;       // Label offering a push-out on the shot after the break
+  pushOut: ILabel;            // Label shown while the shot is declared a push-out
+  pushOutDecision: ILabel;    // Label asking the opponent of a push-out who takes the next shot
+  breakDecision: ILabel;      // Label asking the opponent of an illegal break to play on or re-rack
+  callShot: ILabel;           // Label asking the player to call the ball and the pocket of their shot
+  aiThinking: ILabel;         // Label shown while the AI thinks about its shot
+  visits: ILabel;             // Label showing the visits the current player has left after a foul against them
+  points: ILabel[];           // Labels showing each player's points in games scored by points
+  currentBreak: ILabel;       // Label showing the points the current player has scored in their visit, in snooker
+  pointsRemaining: ILabel;    // Label showing the points left on the table, in snooker
+  foul: ILabel;               // Label listing the fouls of the previous turn
+  foulReasons: string[];      // Description of each foul type, in the order of the FoulType enum
+}
+
+/**
+ * IBlackballRulesConfig
+ *
+ * Interface for configuring the rules specific to blackball as played on UK pub tables.
+ */
+export interface IBlackballRulesConfig {
+  twoVisits: boolean;             // Whether a foul gives the opponent two visits instead of the cue ball in hand
+  cushionChecks: boolean;         // Whether the cushion rules of 8-ball apply, making a break illegal if too few balls reach the cushions
+}
+
+/**
+ * IRotationRulesConfig
+ *
+ * Interface for configuring the rules specific to rotation games like 9-ball: the push-out
+ * after the break and the loss of the rack on fouls in a row.
+ */
+export interface IRotationRulesConfig {
+  pushOutAfterBreak: boolean;     // Whether the shot right after the break may be declared a push-out
+  consecutiveFoulsToLose: number; // Number of fouls in a row that loses the rack (0 = never)
+}
+
+/**
+ * IStraightPoolRulesConfig
+ *
+ * Interface for configuring the scoring of straight pool: the target score, the penalties for fouls
+ * and the requirement of the opening break.
+ */
+export interface IStraightPoolRulesConfig {
+  targetScore: number;             // Points a player needs to win the game
+  foulPenalty: number;             // Points a player loses for each foul
+  consecutiveFouls: number;        // Number of fouls in a row that costs the further penalty
+  consecutiveFoulsPenalty: number; // Further points a player loses for that many fouls in a row
+  breakCushionBalls: number;       // Number of object balls an opening break making no call must drive to the cushions, with the cue ball
+  breakFoulPenalty: number;        // Points a player loses for an illegal opening break, instead of the foul penalty
+}
+
+/**
+ * ISnookerSpotsConfig
+ *
+ * Interface for configuring the spots of the six colours of snooker.
+ */
+export interface ISnookerSpotsConfig {
+  yellow: IVector2; // Yellow spot, at the right corner of the D
+  green: IVector2;  // Green spot, at the left corner of the D
+  brown: IVector2;  // Brown spot, at the middle of the baulk line
+  blue: IVector2;   // Blue spot, at the centre of the table
+  pink: IVector2;   // Pink spot, between the centre of the table and the top cushion
+  black: IVector2;  // Black spot, close to the top cushion
+}
+
+/**
+ * ISnookerRulesConfig
+ *
+ * Interface for configuring the scoring of snooker.
+ */
+export interface ISnookerRulesConfig {
+  minimumFoulPoints: number;      // Fewest points a foul gives the opponent, whatever the balls involved
+}
+
+/**
+ * ICushionRulesConfig
+ *
+ * Interface for configuring the rules of blackball, 8-ball and 9-ball that require balls to reach the cushions:
+ * a rail after the first contact of every shot, and enough balls driven to the cushions on the break.
+ */
+export interface ICushionRulesConfig {
+  railAfterContact: boolean;   // Whether a ball must be pocketed or reach a cushion after the first contact
+  breakCushionBalls: number;   // Number of object balls the break must drive to the cushions when it pockets none (0 = any break)
+}
+
+/**
+ * IGroupRulesConfig
+ *
+ * Interface for configuring how the players of blackball and 8-ball are given their groups of balls.
+ */
+export interface IGroupRulesConfig {
+  assignment: GroupAssignment; // When a pocketed ball gives its group to the shooter
+}
+
+/**
+ * ICallShotRulesConfig
+ *
+ * Interface for configuring the call-shot mode of 8-ball, where the shooter nominates a ball
+ * and the pocket it is to drop in before shooting.
+ */
+export interface ICallShotRulesConfig {
+  on: boolean;                 // Whether shots are called
+  everyBall: boolean;          // Whether every shot is called, rather than only the shots at the 8-ball
 }
 
 /**
@@ -66,6 +198,7 @@ export interface ILabelsConfig {
 export interface IMatchScoreConfig {
   scoresPositions: IVector2[]; // Positions of the score digits (array of x, y coordinates)
   unitMargin: number;          // Margin between score digits for spacing
+  ballsOnTablePosition: IVector2; // Position of the row of balls left on the table, shown in 9-ball
 }
 
 /**
@@ -83,23 +216,48 @@ export interface IAssetsConfig {
  * IPhysicsConfig
  *
  * Interface for configuring the physics properties in the game, such as friction and
- * collision loss, which affect how objects move and interact.
+ * restitution, which affect how objects move and interact. A ball first slides over the
+ * cloth and then rolls, and each phase has its own friction coefficient.
  */
 export interface IPhysicsConfig {
-  friction: number;       // Coefficient of friction affecting ball movement
-  collisionLoss: number;  // Energy loss during collisions affecting post-collision velocities
+  timestep: number;       // Length of one fixed simulation step (ms); velocities are measured in pixels per step
+  subSteps: number;       // Number of sub-steps each simulation step is split into for movement and collisions
+  maxStepsPerFrame: number; // Most simulation steps run for a single rendered frame before time is dropped
+  maxImpactsPerSubStep: number; // Most collisions resolved within one sub-step, guarding against endless contact chains
+  gravity: number;        // Gravitational acceleration in pixels per step squared, scaling every friction coefficient
+  slidingFriction: number; // Coefficient of sliding friction between a slipping ball and the cloth
+  rollingFriction: number; // Coefficient of rolling resistance for a ball rolling without slip
+  spinningFriction: number; // Coefficient of friction wearing off a ball's side spin (english)
+  ballRestitution: number; // Coefficient of restitution between two balls, the share of their closing speed they separate with
+  ballFrictionSlow: number; // Coefficient of friction between two balls whose surfaces barely slip at the contact
+  ballFrictionFast: number; // Coefficient of friction between two balls whose surfaces slip quickly at the contact
+  ballFrictionSpeed: number; // Slip speed at the contact at which ball friction reaches its fast value, blended below it
+  cushionRestitutionSlow: number; // Share of the speed into a cushion a slow ball keeps after bouncing
+  cushionRestitutionFast: number; // Share of the speed into a cushion a fast ball keeps after bouncing
+  cushionRestitutionSpeed: number; // Speed into a cushion at which a ball counts as fast, with restitution blended below it
+  cushionFriction: number; // Coefficient of friction between a ball and the cushion rubber, gripping slip along the cushion
 }
 
 /**
  * ITableConfig
  *
- * Interface for configuring the pool table properties, including cushion width, pocket radius,
- * and the positions of the pockets.
+ * Interface for configuring the pool table properties, including cushion width, pocket radii,
+ * the positions of the pockets and the outline of the cushions. Each cushion is a polyline
+ * running along its nose and bending into the angled jaws at the pocket mouths; balls bounce
+ * off every segment of it, including the points where the jaws meet the nose. Each game mode plays on
+ * a table of its own, whose size is given in the units the balls move in; a table larger than the
+ * screen is drawn smaller to fit it.
  */
 export interface ITableConfig {
+  size: IVector2;            // Size of the table, rails included
+  sprite: string;            // Key of the table's image in the sprite paths, stretched over the whole table
   cushionWidth: number;      // Width of the cushions surrounding the table
-  pocketRadius: number;      // Radius of the pockets where balls can be pocketed
+  pocketMouthRadius: number; // Radius of the pocket mouths, beyond which the back of the pocket stops a ball
+  pocketDropRadius: number;  // Radius around a pocket's centre within which a ball is over the hole and can drop
+  pocketCaptureSpeed: number; // Fastest a ball heading straight for the pocket's centre can go and still drop
+  pocketRattleRestitution: number; // Share of its speed a ball keeps when it bounces off the back of a pocket
   pocketsPositions: IVector2[]; // Positions of the pockets (array of x, y coordinates)
+  cushions: IVector2[][];    // Outline of each cushion, from the end of one jaw along the nose to the end of the other jaw
 }
 
 /**
@@ -114,6 +272,12 @@ export interface IBallConfig {
   minVelocityLength: number;     // Minimum velocity below which the ball is considered stationary
   maxExpectedVelocity: number;   // Maximum expected velocity used for normalizing speeds
   maxExpectedCollisionForce: number; // Maximum expected collision force used for visual and sound effects
+  droppedScale: number;          // How much smaller a ball is drawn once it has sunk into a pocket, as a share of its size
+  numberedColors: string[];      // Colors of the numbered balls 1 to 8; the stripes 9 to 15 repeat the colors of 1 to 7
+  numberedBaseColor: string;     // Color of the white part of a numbered ball: the band around a stripe and the number disc
+  numberFont: string;            // Font family of the numbers on the numbered balls, drawn in bold
+  numberFontSize: number;        // Font size of the numbers on a full-size ball, shrinking with the ball
+  numberColor: string;           // Color of the numbers on the numbered balls
 }
 
 /**
@@ -128,6 +292,65 @@ export interface IStickConfig {
   powerToAddPerFrame: number;     // Amount of power added per frame when charging a shot
   movementPerFrame: number;       // Amount of movement per frame when adjusting the stick's angle
   maxPower: number;               // Maximum power that can be applied to a shot
+  maxTipOffset: number;           // Furthest the cue tip can strike from the centre, as a fraction of the ball's radius
+  tipOffsetPerFrame: number;      // Amount the tip offset moves per frame when adjusting it
+}
+
+/**
+ * IThinkingCueConfig
+ *
+ * Interface for configuring the animation of the cue while the AI thinks about its shot.
+ */
+export interface IThinkingCueConfig {
+  swayAngle: number;              // Furthest angle (in radians) the cue sways from its aim
+  swayPeriod: number;             // Time (ms) of one sway from side to side and back
+  strokeLength: number;           // Furthest distance (in pixels) the cue draws back from the cue ball
+  strokePeriod: number;           // Time (ms) of one stroke back and forth
+}
+
+/**
+ * ITipIndicatorConfig
+ *
+ * Interface for configuring the HUD element that shows where the cue tip will strike the cue ball.
+ */
+export interface ITipIndicatorConfig {
+  position: IVector2;             // Centre of the indicator on the screen (x, y coordinates)
+  radius: number;                 // Radius of the cue ball drawn by the indicator
+  tipRadius: number;              // Radius of the dot marking the tip position
+  ballColor: string;              // Fill color of the cue ball drawn by the indicator
+  tipColor: string;               // Fill color of the dot marking the tip position
+}
+
+/**
+ * ICallMarkerConfig
+ *
+ * Interface for configuring the rings drawn around the ball and the pocket called for a shot.
+ */
+export interface ICallMarkerConfig {
+  ballRadius: number;             // Radius of the ring around the called ball
+  pocketRadius: number;           // Radius of the ring around the called pocket
+  lineWidth: number;              // Width of the rings' lines
+  color: string;                  // Stroke color of the rings
+}
+
+/**
+ * IKitchenZoneConfig
+ *
+ * Interface for configuring the shading drawn over the kitchen while the cue ball in hand may only be placed there.
+ */
+export interface IKitchenZoneConfig {
+  color: string;                  // Fill color of the shading, usually translucent
+}
+
+/**
+ * ISnookerMarkingsConfig
+ *
+ * Interface for configuring the markings drawn on the cloth of the snooker table: the baulk line, the D and the spots.
+ */
+export interface ISnookerMarkingsConfig {
+  lineWidth: number;              // Width of the baulk line and of the D
+  spotRadius: number;             // Radius of the spots of the colours
+  color: string;                  // Color of the markings
 }
 
 /**
@@ -142,7 +365,16 @@ export interface IInputConfig {
   mousePlaceBallButton: number;   // Mouse button for placing the ball (0 = left button)
   increaseShotPowerKey: number;   // Key binding to increase shot power (e.g., W key)
   decreaseShotPowerKey: number;   // Key binding to decrease shot power (e.g., S key)
+  tipOffsetUpKey: number;         // Key binding to move the cue tip up, for follow (e.g., Up arrow)
+  tipOffsetDownKey: number;       // Key binding to move the cue tip down, for draw (e.g., Down arrow)
+  tipOffsetLeftKey: number;       // Key binding to move the cue tip left, for left english (e.g., Left arrow)
+  tipOffsetRightKey: number;      // Key binding to move the cue tip right, for right english (e.g., Right arrow)
   toggleMenuKey: number;          // Key binding to toggle the game menu (e.g., Escape key)
+  toggleDebugOverlayKey: number;  // Key binding to toggle the debug overlay (e.g., D key)
+  pushOutKey: number;             // Key binding to declare a push-out (e.g., P key)
+  acceptKey: number;              // Key binding to accept the opponent's push-out or illegal break and play on (e.g., Y key)
+  declineKey: number;             // Key binding to pass the shot back after a push-out, or re-rack after an illegal break (e.g., N key)
+  mouseCallButton: number;        // Mouse button for calling the ball and the pocket of a shot (2 = right button)
 }
 
 /**
@@ -161,17 +393,31 @@ export interface IMenuConfig {
  * IButton
  *
  * Interface for configuring buttons in the menus, including their action, position, and
- * sprite images for normal and hover states. An optional value can be assigned for additional
- * behavior (e.g., difficulty level).
+ * sprite images for normal and hover states, or the text of a button drawn as text.
+ * An optional value can be assigned for additional behavior (e.g., difficulty level).
  */
 export interface IButton {
   action: MenuActionType;     // Action to be triggered when the button is pressed
   position: IVector2;         // Position of the button on the screen (x, y coordinates)
-  sprite: string;             // Sprite image for the button in its normal state
-  spriteOnHover: string;      // Sprite image for the button when it is hovered over
+  sprite?: string;            // Sprite image for the button in its normal state
+  spriteOnHover?: string;     // Sprite image for the button when it is hovered over
+  text?: string;              // Text of the button, for a button drawn as text instead of a sprite
   value?: number;             // Optional value associated with the button (e.g., difficulty level)
 }
 
+/**
+ * IMenuTextButtonConfig
+ *
+ * Interface for configuring the look of menu buttons that are drawn as text rather than
+ * as sprites, such as the buttons choosing the game mode.
+ */
+export interface IMenuTextButtonConfig {
+  font: string;               // Font style and size of the button text
+  height: number;             // Height of the button, the text's line height
+  color: string;              // Color of the text
+  colorOnHover: string;       // Color of the text when the button is hovered over
+}
+
 /**
  * ILabel
  *
@@ -217,4 +463,10 @@ export interface IAIConfig {
   gameLossPenalty: number;         // Penalty for AI when it loses a game
   shotPowerMutationVariance: number; // Variance in shot power to introduce randomness in AI behavior
   minShotPower: number;            // Minimum shot power the AI can apply
+  shotPlanner: boolean;            // Whether training starts from the shots planned with ghost-ball geometry
+  maxCutAngle: number;             // Widest cut (in radians) of a planned shot
+  shotReach: number;               // Distance (in pixels) a ball struck with power 1 rolls, growing with the square of the power
+  objectBallTransfer: number;      // Share of the cue ball's remaining roll an object ball hit full on rolls
+  pocketSpeedMargin: number;       // Distance (in pixels) a planned object ball could still roll past the pocket
+  workerScript: string;            // Path of the web worker script the AI searches in
 }
@@ -4,6 +4,7 @@ import { GoToSubMenuCommand } from './menu/commands/go-to-sub-menu-command';
 import { ToggleSoundCommand } from './menu/commands/toggle-sound-command';
 import { PVCCommand } from './menu/commands/pvc-command';
 import { PVPCommand } from './menu/commands/pvp-command';
+import { SelectGameModeCommand } from './menu/commands/select-game-mode-command';
 import { IMenuCommand } from './menu/commands/menu-command';
 import { GameConfig } from './game.config';
 import { MenuActionType } from './menu/menu-action-type';
@@ -13,14 +14,30 @@ import { GameWorld } from './game-objects/game-world';
 import { Keyboard } from './input/keyboard';
 import { Canvas2D } from './canvas';
 import { Mouse } from './input/mouse';
-import { IAssetsConfig, IInputConfig } from './game.config.type';
+import { FixedTimestep } from './physics/fixed-timestep';
+import { PlayerController } from './input/player-controller';
+import { GameWorldRenderer } from './rendering/game-world-renderer';
+import { IGameEvent } from './game-objects/game-event';
+import { GameEventType } from './game-objects/game-event-type';
+import { Random } from './common/random';
+import { IRuleSet } from './rules/rule-set';
+import { createRuleSet } from './rules/rule-set-factory';
+import { IAIConfig, IAssetsConfig, IInputConfig, ILabelsConfig, IPhysicsConfig } from './game.config.type';
 
 //------Configurations------//
 
 // Configuration for sprites (images) used in the game
 const sprites: IAssetsConfig = GameConfig.sprites;
+// Configuration for sounds played for the events of the game world
+const sounds: IAssetsConfig = GameConfig.sounds;
+// Configuration for the labels, including the debug overlay
+const labelsConfig: ILabelsConfig = GameConfig.labels;
 // Configuration for input controls, such as key bindings
 const inputConfig: IInputConfig = GameConfig.input;
+// Configuration for physics, including the length of a simulation step
+const physicsConfig: IPhysicsConfig = GameConfig.physics;
+// Configuration for the AI, including the script of its web worker
+const aiConfig: IAIConfig = GameConfig.ai;
 
 /**
  * The Game class encapsulates the entire game, including the main menu,
@@ -40,10 +57,20 @@ export class Game {
   private _menu: Menu = new Menu();
   // The main game world where the pool game is played
   private _poolGame: GameWorld;
+  // Turns the player's mouse and keyboard input into actions in the game world
+  private _playerController: PlayerController = new PlayerController();
+  // Draws the game world on the canvas
+  private _poolGameRenderer: GameWorldRenderer = new GameWorldRenderer();
   // Boolean flag to indicate whether the game is in a loading state
   private _isLoading: boolean;
   // Boolean flag to indicate whether the player is currently in the game
   private _inGame: boolean;
+  // Turns the time between frames into fixed simulation steps
+  private _timestep: FixedTimestep = new FixedTimestep(physicsConfig.timestep, physicsConfig.maxStepsPerFrame);
+  // Timestamp of the previous frame (ms), undefined before the first frame
+  private _lastFrameTime: number;
+  // Boolean flag to indicate whether the debug overlay (seed and shot number) is shown
+  private _debugOverlay: boolean = GameConfig.debugOverlay;
 
   //------Private Methods------//
 
@@ -58,6 +85,7 @@ export class Game {
     this._menuActionsMap.set(MenuActionType.ToggleSound, new ToggleSoundCommand()); // Toggle sound command
     this._menuActionsMap.set(MenuActionType.GoToSubMenu, new GoToSubMenuCommand(this)); // Navigate to sub-menu command
     this._menuActionsMap.set(MenuActionType.GoToPreviousMenu, new GoToPreviousMenuCommand(this)); // Navigate to previous menu command
+    this._menuActionsMap.set(MenuActionType.SelectGameMode, new SelectGameModeCommand(this)); // Choose game mode command
   }
 
   /**
@@ -90,9 +118,21 @@ export class Game {
     });
   }
 
+  /**
+   * Reads the random seed from the page address, for example ?seed=1234, so a reported game
+   * can be replayed. Without a valid seed in the address the configured or clock seed is kept.
+   */
+  private initRandomSeed(): void {
+    const seed: number = parseInt(new URLSearchParams(window.location.search).get('seed'), 10);
+    if (!isNaN(seed)) {
+      Random.seed = seed;
+    }
+  }
+
   /**
    * Handles user input, particularly checking if the menu key (e.g., Escape)
-   * has been pressed to toggle the visibility of the game menu during gameplay.
+   * has been pressed to toggle the visibility of the game menu during gameplay,
+   * and if the debug key has been pressed to toggle the debug overlay.
    */
   private handleInput(): void {
     if (this._inGame && Keyboard.isPressed(inputConfig.toggleMenuKey)) { // Check if the game is in progress and the menu key is pressed
@@ -104,21 +144,75 @@ export class Game {
         this._menu.active = true;
       }
     }
+
+    if (Keyboard.isPressed(inputConfig.toggleDebugOverlayKey)) {
+      this._debugOverlay = !this._debugOverlay;
+    }
+  }
+
+  /**
+   * Plays the sound for an event reported by the game world, at a volume matching its intensity.
+   *
+   * @param {IGameEvent} event - The event to play the sound of.
+   */
+  private playEventSound(event: IGameEvent): void {
+    switch (event.type) {
+      case GameEventType.Strike:
+        Assets.playSound(sounds.paths.strike, event.intensity);
+        break;
+
+      case GameEventType.BallsCollide:
+        Assets.playSound(sounds.paths.ballsCollide, event.intensity);
+        break;
+
+      case GameEventType.BallPocketed:
+        Assets.playSound(sounds.paths.rail, event.intensity);
+        break;
+    }
+  }
+
+  /**
+   * Updates the game world for one frame. Input is handled once per frame, while the
+   * simulation runs as many fixed steps as the elapsed time holds. The sounds of the
+   * events reported along the way are played afterwards.
+   *
+   * @param {number} elapsed - The time since the previous frame (ms).
+   */
+  private updatePoolGame(elapsed: number): void {
+    this._playerController.update(this._poolGame); // Handle the player's input
+    this._timestep.advance(elapsed, () => this._poolGame.step()); // Advance the simulation in fixed steps
+    this._poolGame.takeEvents().forEach((event: IGameEvent) => this.playEventSound(event)); // Play the sounds of the frame
   }
 
   /**
    * Updates the game state. This method is called on every frame.
    * It processes input, updates the current menu or game world,
    * and resets input states for the next frame.
+   *
+   * @param {number} elapsed - The time since the previous frame (ms).
    */
-  private update(): void {
+  private update(elapsed: number): void {
     if (this._isLoading) return; // Skip update if the game is still loading
     this.handleInput(); // Handle user input
-    this._menu.active ? this._menu.update() : this._poolGame.update(); // Update either the menu or the game world based on the current state
+    this._menu.active ? this._menu.update() : this.updatePoolGame(elapsed); // Update either the menu or the game world based on the current state
     Keyboard.reset(); // Reset keyboard input states
     Mouse.reset(); // Reset mouse input states
   }
 
+  /**
+   * Draws the debug overlay, showing the random seed and the number of shots taken,
+   * which together identify a moment of the game to replay.
+   */
+  private drawDebugOverlay(): void {
+    Canvas2D.drawText(
+      labelsConfig.debugInfo.text + Random.seed + labelsConfig.debugShotText + this._poolGame.shotsTaken,
+      labelsConfig.debugInfo.font,
+      labelsConfig.debugInfo.color,
+      labelsConfig.debugInfo.position,
+      labelsConfig.debugInfo.alignment
+    );
+  }
+
   /**
    * Renders the game state to the screen. This method is called on every frame
    * after the update. It clears the canvas and draws either the menu or the game world
@@ -126,22 +220,29 @@ export class Game {
    */
   private draw(): void {
     if (this._isLoading) return; // Skip drawing if the game is still loading
-    if (AI.finishedSession) { // Check if the AI session has finished
-      Canvas2D.clear(); // Clear the canvas
-      this._menu.active ? this._menu.draw() : this._poolGame.draw(); // Draw either the menu or the game world based on the current state
+    Canvas2D.clear(); // Clear the canvas
+    this._menu.active ? this._menu.draw() : this._poolGameRenderer.draw(this._poolGame); // Draw either the menu or the game world based on the current state
+    if (this._debugOverlay && this._inGame && !this._menu.active) {
+      this.drawDebugOverlay(); // Draw the seed and shot number over the game
     }
   }
 
   /**
    * The main game loop that continuously updates and renders the game.
    * This loop is executed repeatedly using `requestAnimationFrame` to ensure
-   * smooth animation and gameplay.
+   * smooth animation and gameplay. The time between frames drives the fixed-step
+   * simulation, so the game runs at the same speed on any refresh rate.
+   *
+   * @param {number} time - The timestamp of the current frame (ms).
    */
-  private gameLoop(): void {
-    this.update(); // Update the game state
+  private gameLoop(time: number): void {
+    const elapsed: number = this._lastFrameTime === undefined ? 0 : time - this._lastFrameTime;
+    this._lastFrameTime = time;
+
+    this.update(elapsed); // Update the game state
     this.draw(); // Render the game state
-    window.requestAnimationFrame(() => { // Request the next frame to keep the loop going
-      this.gameLoop();
+    window.requestAnimationFrame((nextTime: number) => { // Request the next frame to keep the loop going
+      this.gameLoop(nextTime);
     });
   }
 
@@ -156,11 +257,15 @@ export class Game {
   public async init(): Promise<void> {
     await Assets.loadGameAssets(); // Load all necessary game assets
 
+    this.initRandomSeed(); // Take the random seed from the page address, if it has one
+
+    AI.useWorker(new Worker(aiConfig.workerScript)); // Let the AI search for its shots without blocking the game loop
+
     this.initMenuActions(); // Initialize the menu actions
     this.initMainMenu(); // Initialize the main menu
     this._menu.active = true; // Set the main menu as the active menu
-    this._poolGame = new GameWorld(); // Create a new game world instance
-    this.gameLoop(); // Start the game loop
+    this._poolGame = new GameWorld(createRuleSet(GameConfig.gameMode)); // Create a new game world instance
+    this.gameLoop(performance.now()); // Start the game loop
   }
 
   /**
@@ -196,14 +301,17 @@ export class Game {
 
   /**
    * Starts the actual pool game after the loading screen is displayed.
-   * It initializes the game world and begins the gameplay.
+   * It initializes the game world under the given rules and begins the gameplay.
+   *
+   * @param {IRuleSet} ruleSet - The rules of the game to play.
    */
-  public start(): void {
+  public start(ruleSet: IRuleSet): void {
     this.displayLoadingScreen().then(() => { // Display the loading screen before starting
       this._menu.active = false; // Deactivate the menu
       this._inGame = true; // Set the game state to "in-game"
-      this._poolGame = new GameWorld(); // Create a new game world instance
-      this._poolGame.initMatch(); // Initialize the pool match in the game world
+      AI.cancelSession(); // Drop the shot the AI may still be searching for in the previous game
+      this._poolGame = new GameWorld(ruleSet); // Create a new game world instance played under the rules
+      this._timestep.reset(); // Start the new match with an empty step accumulator
     });
   }
 }
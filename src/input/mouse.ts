@@ -64,6 +64,8 @@ class Mouse_Singleton {
     document.addEventListener('mousedown', (event) => this.handleMouseDown(event));
     // Listen for mouseup events and handle them
     document.addEventListener('mouseup', (event) => this.handleMouseUp(event));
+    // Keep the right button for the game rather than the browser's context menu
+    document.addEventListener('contextmenu', (event) => event.preventDefault());
   }
 
   //------Private Methods------//
@@ -0,0 +1,175 @@
+import { IInputConfig, IStickConfig, IVector2 } from './../game.config.type';
+import { GameConfig } from '../game.config';
+import { AI } from '../ai/ai-trainer';
+import { Vector2 } from '../physics/vector2';
+import { GameWorld } from '../game-objects/game-world';
+import { Stick } from '../game-objects/stick';
+import { TurnPhase } from '../game-objects/turn-phase';
+import { Keyboard } from './keyboard';
+import { Mouse } from './mouse';
+
+//------Configurations------//
+
+// Load configurations from the game configuration
+const inputConfig: IInputConfig = GameConfig.input;
+const stickConfig: IStickConfig = GameConfig.stick;
+const gameSize: IVector2 = GameConfig.gameSize;
+
+/**
+ * PlayerController
+ *
+ * This class turns the player's mouse and keyboard input into actions in the game world:
+ * placing the cue ball when it is in hand, aiming and powering the stick, choosing where
+ * the tip strikes the cue ball, declaring and answering push-outs, answering illegal breaks, calling the ball
+ * and the pocket of a shot, and taking the shot.
+ */
+export class PlayerController {
+
+  //------Private Methods------//
+
+  /**
+   * Gets the position of the mouse on the table. A table larger than the screen is drawn zoomed out,
+   * so the mouse position is scaled up to the table's size.
+   *
+   * @param {GameWorld} gameWorld - The game world the player is playing in.
+   * @returns {Vector2} The position of the mouse, in the units of the table.
+   */
+  private getMousePosition(gameWorld: GameWorld): Vector2 {
+    return Mouse.position.mult(gameWorld.table.size.x / gameSize.x);
+  }
+
+  /**
+   * Handles the cue ball in hand, which follows the mouse until the player places it on the table.
+   *
+   * @param {GameWorld} gameWorld - The game world the player is playing in.
+   */
+  private handleBallInHand(gameWorld: GameWorld): void {
+    const position: Vector2 = this.getMousePosition(gameWorld);
+
+    if (Mouse.isPressed(inputConfig.mousePlaceBallButton) && gameWorld.isValidPosToPlaceCueBall(position)) {
+      gameWorld.placeBallInHand(position);
+    }
+    else {
+      gameWorld.moveBallInHand(position);
+    }
+  }
+
+  /**
+   * Handles the player's answer to the opponent's push-out, taking the shot or passing it back,
+   * or to the opponent's illegal break, playing on or re-racking.
+   *
+   * @param {GameWorld} gameWorld - The game world the player is playing in.
+   */
+  private handleDecision(gameWorld: GameWorld): void {
+    const answer = (accept: boolean): void => gameWorld.turnPhase === TurnPhase.PushOutDecision ?
+      gameWorld.answerPushOut(accept) :
+      gameWorld.answerIllegalBreak(accept);
+
+    if (Keyboard.isPressed(inputConfig.acceptKey)) {
+      answer(true);
+    }
+    else if (Keyboard.isPressed(inputConfig.declineKey)) {
+      answer(false);
+    }
+  }
+
+  /**
+   * Updates the power level of the shot based on player input.
+   * The power increases or decreases depending on which keys are pressed.
+   *
+   * @param {Stick} stick - The stick to power.
+   */
+  private updatePower(stick: Stick): void {
+
+    if (Keyboard.isDown(inputConfig.increaseShotPowerKey)) {
+      stick.increasePower();
+    }
+    else if (Keyboard.isDown(inputConfig.decreaseShotPowerKey)) {
+      stick.decreasePower();
+    }
+  }
+
+  /**
+   * Updates the tip offset based on player input. The arrow keys move the tip
+   * up, down, left and right across the face of the cue ball.
+   *
+   * @param {Stick} stick - The stick whose tip offset to move.
+   */
+  private updateTipOffset(stick: Stick): void {
+    const step: number = stickConfig.tipOffsetPerFrame;
+    let offset: Vector2 = stick.tipOffset;
+
+    if (Keyboard.isDown(inputConfig.tipOffsetUpKey)) {
+      offset = offset.addY(step);
+    }
+    if (Keyboard.isDown(inputConfig.tipOffsetDownKey)) {
+      offset = offset.addY(-step);
+    }
+    if (Keyboard.isDown(inputConfig.tipOffsetLeftKey)) {
+      offset = offset.addX(-step);
+    }
+    if (Keyboard.isDown(inputConfig.tipOffsetRightKey)) {
+      offset = offset.addX(step);
+    }
+
+    stick.tipOffset = offset;
+  }
+
+  /**
+   * Updates the stick's rotation, power and tip offset based on player input
+   * while the stick can be moved.
+   *
+   * @param {GameWorld} gameWorld - The game world whose stick is updated.
+   */
+  private updateStick(gameWorld: GameWorld): void {
+    const stick: Stick = gameWorld.stick;
+
+    if (stick.movable) {
+      stick.aimAt(this.getMousePosition(gameWorld)); // Point the stick towards the mouse
+      this.updatePower(stick);     // Update the stick's power based on keyboard input
+      this.updateTipOffset(stick); // Update where the tip strikes the cue ball based on keyboard input
+    }
+  }
+
+  //------Public Methods------//
+
+  /**
+   * Handles the player's input for the current frame: answering a push-out or an illegal break, placing the cue ball
+   * when it is in hand, declaring a push-out, calling the shot, moving the stick and shooting once the shot is called
+   * if it has to be and the player clicks. The input is ignored while the AI is thinking about its turn.
+   * This method is called once on every rendered frame, however many simulation steps that frame runs.
+   *
+   * @param {GameWorld} gameWorld - The game world the player is playing in.
+   */
+  public update(gameWorld: GameWorld): void {
+
+    if (!AI.finishedSession) {
+      return;
+    }
+
+    if (gameWorld.isDecisionPending) {
+      this.handleDecision(gameWorld);
+      return;
+    }
+
+    if (gameWorld.isBallInHand) {
+      this.handleBallInHand(gameWorld);
+      return;
+    }
+
+    if (Keyboard.isPressed(inputConfig.pushOutKey)) {
+      gameWorld.declarePushOut();
+    }
+
+    if (Mouse.isPressed(inputConfig.mouseCallButton)) {
+      gameWorld.callAt(this.getMousePosition(gameWorld));
+    }
+
+    if (!gameWorld.isCallPending && Mouse.isPressed(inputConfig.mouseShootButton)) {
+      const stick: Stick = gameWorld.stick;
+      gameWorld.shootCueBall(stick.power, stick.rotation, stick.tipOffset);
+    }
+
+    this.updateStick(gameWorld);
+  }
+}
@@ -1,6 +1,8 @@
 import { GameConfig } from './../../game.config';
 import { IMenuCommand } from './menu-command';
 import { Game } from '../../game';
+import { Random } from '../../common/random';
+import { createRuleSet } from '../../rules/rule-set-factory';
 
 /**
  * PVCCommand
@@ -24,14 +26,18 @@ export class PVCCommand implements IMenuCommand {
 
   /**
    * Executes the command to start a Player vs Computer match.
-   * This method configures the AI settings, including the number of training iterations
-   * and randomly assigns the AI to a player index before starting the game.
+   * This method restarts the random numbers from the game's seed, so the match can be replayed,
+   * configures the AI settings, including the number of training iterations, and randomly
+   * assigns the AI to a player index before starting the game.
    *
    * @param iterationsValue - The number of training iterations the AI should perform.
    */
   public execute(iterationsValue: number): void {
+    // Restart the random numbers from the seed, so the same seed replays the same match
+    Random.reset();
+
     // Randomly assign the AI to be either player 0 or player 1
-    GameConfig.ai.playerIndex = Math.floor(Math.random() * 2);
+    GameConfig.ai.playerIndex = Random.integer(2);
 
     // Enable the AI
     GameConfig.ai.on = true;
@@ -39,7 +45,7 @@ export class PVCCommand implements IMenuCommand {
     // Set the number of training iterations for the AI
     GameConfig.ai.trainIterations = iterationsValue;
 
-    // Start the game
-    this._game.start();
+    // Start the game under the rules of the chosen game mode
+    this._game.start(createRuleSet(GameConfig.gameMode));
   }
 }
@@ -1,6 +1,8 @@
 import { GameConfig } from './../../game.config';
 import { Game } from '../../game';
 import { IMenuCommand } from './menu-command';
+import { Random } from '../../common/random';
+import { createRuleSet } from '../../rules/rule-set-factory';
 
 /**
  * PVPCommand
@@ -24,15 +26,18 @@ export class PVPCommand implements IMenuCommand {
 
   /**
    * Executes the command to start a Player vs Player match.
-   * This method disables the AI by setting the relevant configuration in GameConfig
-   * and then starts the game.
+   * This method restarts the random numbers from the game's seed, so the match can be replayed,
+   * disables the AI by setting the relevant configuration in GameConfig and then starts the game.
    */
   public execute(): void {
+    // Restart the random numbers from the seed, so the same seed replays the same match
+    Random.reset();
+
     // Disable the AI for a Player vs Player match
     GameConfig.ai.on = false;
 
-    // Start the game
-    this._game.start();
+    // Start the game under the rules of the chosen game mode
+    this._game.start(createRuleSet(GameConfig.gameMode));
   }
 
 }
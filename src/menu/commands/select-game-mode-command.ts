@@ -0,0 +1,38 @@
+import { GameConfig } from './../../game.config';
+import { IMenuCommand } from './menu-command';
+import { Game } from '../../game';
+import { GameMode } from '../../game-objects/game-mode';
+
+/**
+ * SelectGameModeCommand
+ *
+ * This class implements the `IMenuCommand` interface and is responsible for choosing the pool
+ * game to play. When the `execute` method is called, it stores the chosen game mode in the
+ * configuration, so the next match is racked and refereed for that game, and returns to the
+ * previous menu.
+ */
+export class SelectGameModeCommand implements IMenuCommand {
+
+  //------Constructor------//
+
+  /**
+   * Constructs an instance of the SelectGameModeCommand class.
+   *
+   * @param _game - The instance of the Game class that this command will operate on.
+   */
+  constructor(private _game: Game) { }
+
+  //------Public Methods------//
+
+  /**
+   * Executes the command to choose the pool game for the next match.
+   *
+   * @param gameMode - The game mode to play.
+   */
+  public execute(gameMode: GameMode): void {
+    GameConfig.gameMode = gameMode;
+
+    this._game.goToPreviousMenu();
+  }
+
+}
@@ -48,5 +48,12 @@ export enum MenuActionType {
    *
    * Action to navigate back to the previous menu. This is typically used for a "Back" button to return to the previous menu screen.
    */
-  GoToPreviousMenu
+  GoToPreviousMenu,
+
+  /**
+   * SelectGameMode
+   *
+   * Action to choose the pool game to play, such as blackball or 8-ball. The chosen game is used for the next match.
+   */
+  SelectGameMode
 }
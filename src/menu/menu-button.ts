@@ -1,4 +1,4 @@
-import { IInputConfig, ICursorConfig, IVector2 } from './../game.config.type';
+import { IInputConfig, ICursorConfig, IVector2, IMenuTextButtonConfig } from './../game.config.type';
 import { IMenuCommand } from './commands/menu-command';
 import { GameConfig } from '../game.config';
 import { Mouse } from '../input/mouse';
@@ -12,12 +12,14 @@ import { IAssetsConfig } from '../game.config.type';
 const inputConfig: IInputConfig = GameConfig.input;
 const cursorConfig: ICursorConfig = GameConfig.cursor;
 const sprites: IAssetsConfig = GameConfig.sprites;
+const textButtonConfig: IMenuTextButtonConfig = GameConfig.menuTextButton;
 
 /**
  * MenuButton
  *
  * This class represents a button in the game's menu. It handles user interactions,
- * such as hovering and clicking, and executes a command when clicked.
+ * such as hovering and clicking, and executes a command when clicked. A button is drawn
+ * either as a sprite or, when it has a text, as text in the configured font.
  */
 export class MenuButton {
 
@@ -47,6 +49,7 @@ export class MenuButton {
    * @param _position - The position of the button on the canvas.
    * @param _spriteKey - The key for the sprite image in its normal state.
    * @param _spriteOnHoverKey - The key for the sprite image when hovered.
+   * @param _text - The text of a button drawn as text instead of a sprite.
    */
   constructor(
     private _command: IMenuCommand,
@@ -54,8 +57,13 @@ export class MenuButton {
     private _position: IVector2,
     private _spriteKey: string,
     private _spriteOnHoverKey: string,
+    private _text?: string,
   ) {
 
+    if (this._text) {
+      return; // A text button has no sprites
+    }
+
     if (!sprites.paths[this._spriteKey]) {
       throw new Error(`Sprite not found for key: ${this._spriteKey}`);
     }
@@ -72,10 +80,13 @@ export class MenuButton {
    * @returns {boolean} True if the position is inside the button, false otherwise.
    */
   private isInsideButton(position: IVector2): boolean {
+    const width: number = this._text ? Canvas2D.measureText(this._text, textButtonConfig.font) : this._activeSprite.width;
+    const height: number = this._text ? textButtonConfig.height : this._activeSprite.height;
+
     return position.x > this._position.x &&
-      position.x < this._position.x + this._activeSprite.width &&
+      position.x < this._position.x + width &&
       position.y > this._position.y &&
-      position.y < this._position.y + this._activeSprite.height;
+      position.y < this._position.y + height;
   }
 
   //------Public Methods------//
@@ -87,9 +98,11 @@ export class MenuButton {
   public handleInput(): void {
 
     this.hovered = this.isInsideButton(Mouse.position);
-    this._activeSprite = this._hovered ?
-      Assets.getSprite(sprites.paths[this._spriteOnHoverKey]) :
-      Assets.getSprite(sprites.paths[this._spriteKey]);
+    if (!this._text) {
+      this._activeSprite = this._hovered ?
+        Assets.getSprite(sprites.paths[this._spriteOnHoverKey]) :
+        Assets.getSprite(sprites.paths[this._spriteKey]);
+    }
 
     if (this._hovered && Mouse.isPressed(inputConfig.mouseSelectButton)) {
       Canvas2D.changeCursor(cursorConfig.default);
@@ -106,11 +119,19 @@ export class MenuButton {
 
   /**
    * Draws the button on the canvas, changing the cursor appearance if hovered.
+   * A text button is drawn in its hover color while hovered.
    */
   public draw(): void {
     if (this._hovered) {
       Canvas2D.changeCursor(cursorConfig.button);
     }
-    Canvas2D.drawImage(this._activeSprite, this._position);
+
+    if (this._text) {
+      const color: string = this._hovered ? textButtonConfig.colorOnHover : textButtonConfig.color;
+      Canvas2D.drawText(this._text, textButtonConfig.font, color, this._position, 'left', 'top');
+    }
+    else {
+      Canvas2D.drawImage(this._activeSprite, this._position);
+    }
   }
 }
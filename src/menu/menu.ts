@@ -75,6 +75,7 @@ export class Menu {
         button.position,
         sprite,
         spriteOnHover,
+        button.text,
       );
     });
 
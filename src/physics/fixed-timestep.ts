@@ -0,0 +1,60 @@
+/**
+ * FixedTimestep
+ *
+ * This class turns the variable time between rendered frames into a whole number of
+ * fixed-length simulation steps. Elapsed time is collected in an accumulator and a step
+ * is run for every full timestep it holds, so the simulation advances at the same rate
+ * no matter how fast the screen refreshes. Whatever is left over carries to the next frame.
+ * Because every step has the same length, a shot plays out the same way on any machine.
+ */
+export class FixedTimestep {
+
+  //------Members------//
+
+  private _accumulator: number = 0; // Elapsed time not yet consumed by a step (ms)
+
+  //------Constructor------//
+
+  /**
+   * Constructs an instance of the FixedTimestep class.
+   *
+   * @param {number} _timestep - The length of one simulation step (ms).
+   * @param {number} _maxStepsPerFrame - The most steps run for a single frame, so a long stall
+   * (a background tab or a slow AI search) does not turn into a burst of catch-up steps.
+   */
+  constructor(private _timestep: number, private _maxStepsPerFrame: number) { }
+
+  //------Public Methods------//
+
+  /**
+   * Adds the elapsed time to the accumulator and runs a step for every full timestep it holds.
+   * Time beyond the per-frame step limit is dropped.
+   *
+   * @param {number} elapsed - The time since the previous frame (ms).
+   * @param {() => void} step - The function advancing the simulation by one timestep.
+   * @returns {number} The number of steps that were run.
+   */
+  public advance(elapsed: number, step: () => void): number {
+    this._accumulator += elapsed;
+
+    let steps: number = 0;
+    while (this._accumulator >= this._timestep && steps < this._maxStepsPerFrame) {
+      step();
+      this._accumulator -= this._timestep;
+      steps++;
+    }
+
+    if (steps === this._maxStepsPerFrame) {
+      this._accumulator = this._accumulator % this._timestep;
+    }
+
+    return steps;
+  }
+
+  /**
+   * Empties the accumulator, for example when the simulation has been paused.
+   */
+  public reset(): void {
+    this._accumulator = 0;
+  }
+}
@@ -0,0 +1,134 @@
+import { Vector2 } from './vector2';
+
+/**
+ * The moment and direction of a circle touching a line segment.
+ */
+export interface ISegmentImpact {
+  time: number;     // Time until the circle touches the segment
+  normal: Vector2;  // Unit normal of the contact, pointing from the segment towards the circle
+}
+
+/**
+ * Calculates when two moving circles first touch, assuming both keep their velocities.
+ * The circles touch when the distance between their centres equals the given contact
+ * distance, which is a quadratic in time; the earlier root is the moment of impact.
+ * Circles that are already touching and still closing in collide immediately, while
+ * circles that are moving apart never do.
+ *
+ * @param {Vector2} firstPosition - The centre of the first circle.
+ * @param {Vector2} firstVelocity - The velocity of the first circle.
+ * @param {Vector2} secondPosition - The centre of the second circle.
+ * @param {Vector2} secondVelocity - The velocity of the second circle.
+ * @param {number} contactDistance - The distance between the centres at which the circles touch.
+ * @returns {number | null} The time until impact, or null if the circles never touch.
+ */
+export const circlesTimeOfImpact = (
+  firstPosition: Vector2,
+  firstVelocity: Vector2,
+  secondPosition: Vector2,
+  secondVelocity: Vector2,
+  contactDistance: number
+): number | null => {
+  const relativePosition: Vector2 = secondPosition.subtract(firstPosition);
+  const relativeVelocity: Vector2 = secondVelocity.subtract(firstVelocity);
+
+  const closingRate: number = relativePosition.dot(relativeVelocity);
+  if (closingRate >= 0) {
+    return null; // The circles are moving apart or keeping their distance
+  }
+
+  const gap: number = relativePosition.dot(relativePosition) - contactDistance * contactDistance;
+  if (gap <= 0) {
+    return 0; // The circles already touch and are closing in
+  }
+
+  const speedSquared: number = relativeVelocity.dot(relativeVelocity);
+  const discriminant: number = closingRate * closingRate - speedSquared * gap;
+  if (discriminant < 0) {
+    return null; // The circles pass each other without touching
+  }
+
+  return (-closingRate - Math.sqrt(discriminant)) / speedSquared;
+};
+
+/**
+ * Calculates when a moving point reaches a line, given by its unit normal and its offset
+ * along that normal. The point is on the allowed side while its projection onto the normal
+ * is at least the offset. A point already on the wrong side and still moving outwards hits
+ * the line immediately, while a point moving away from the line never does.
+ *
+ * @param {Vector2} position - The position of the point.
+ * @param {Vector2} velocity - The velocity of the point.
+ * @param {Vector2} normal - The unit normal of the line, pointing to the allowed side.
+ * @param {number} offset - The projection onto the normal of every point on the line.
+ * @returns {number | null} The time until the point reaches the line, or null if it never does.
+ */
+export const lineTimeOfImpact = (
+  position: Vector2,
+  velocity: Vector2,
+  normal: Vector2,
+  offset: number
+): number | null => {
+  const approachRate: number = normal.dot(velocity);
+  if (approachRate >= 0) {
+    return null; // The point is moving away from the line or along it
+  }
+
+  const distance: number = normal.dot(position) - offset;
+  if (distance <= 0) {
+    return 0; // The point is already on the line or past it
+  }
+
+  return distance / -approachRate;
+};
+
+/**
+ * Calculates when a moving circle first touches a fixed line segment, and the normal of the
+ * contact. The circle can hit the face of the segment, on whichever side it is on, or one of
+ * the segment's ends, which lets it rattle off the corners where two segments meet.
+ *
+ * @param {Vector2} position - The centre of the circle.
+ * @param {Vector2} velocity - The velocity of the circle.
+ * @param {Vector2} start - The first end of the segment.
+ * @param {Vector2} end - The second end of the segment.
+ * @param {number} radius - The radius of the circle.
+ * @returns {ISegmentImpact | null} The time until impact and the contact normal, or null if the circle never touches.
+ */
+export const segmentTimeOfImpact = (
+  position: Vector2,
+  velocity: Vector2,
+  start: Vector2,
+  end: Vector2,
+  radius: number
+): ISegmentImpact | null => {
+  const along: Vector2 = end.subtract(start);
+  const length: number = along.length;
+  const direction: Vector2 = along.mult(1 / length);
+
+  // The face of the segment, on the side the circle is on
+  let normal: Vector2 = new Vector2(-direction.y, direction.x);
+  if (normal.dot(position.subtract(start)) < 0) {
+    normal = normal.mult(-1);
+  }
+
+  let earliest: ISegmentImpact | null = null;
+
+  const faceTime: number | null = lineTimeOfImpact(position, velocity, normal, normal.dot(start) + radius);
+  if (faceTime !== null) {
+    const projection: number = position.add(velocity.mult(faceTime)).subtract(start).dot(direction);
+    if (projection >= 0 && projection <= length) {
+      earliest = { time: faceTime, normal };
+    }
+  }
+
+  // The ends of the segment
+  for (const corner of [start, end]) {
+    const cornerTime: number | null = circlesTimeOfImpact(position, velocity, corner, Vector2.zero, radius);
+    if (cornerTime !== null && (!earliest || cornerTime < earliest.time)) {
+      const contact: Vector2 = position.add(velocity.mult(cornerTime)).subtract(corner);
+      earliest = { time: cornerTime, normal: contact.mult(1 / contact.length) };
+    }
+  }
+
+  return earliest;
+};
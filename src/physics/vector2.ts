@@ -78,6 +78,16 @@ export class Vector2 implements IVector2 {
     return new Vector2(vector.x, vector.y);
   }
 
+  /**
+   * Method to turn the vector into a plain object with the same coordinates, which can be
+   * copied to a web worker or written out as JSON.
+   *
+   * @returns {IVector2} A plain object with the vector's coordinates.
+   */
+  public toObject(): IVector2 {
+    return { x: this._x, y: this._y };
+  }
+
   /**
    * Adds a value to the x-coordinate and returns a new Vector2 instance.
    *
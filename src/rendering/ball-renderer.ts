@@ -0,0 +1,97 @@
+import { IBallConfig, IAssetsConfig, IVector2 } from './../game.config.type';
+import { GameConfig } from '../game.config';
+import { Canvas2D } from '../canvas';
+import { Assets } from '../assets';
+import { Color } from '../common/color';
+import { Ball } from '../game-objects/ball';
+
+//------Configurations------//
+
+// Load configurations from the game configuration
+const ballConfig: IBallConfig = GameConfig.ball;
+const sprites: IAssetsConfig = GameConfig.sprites;
+
+/**
+ * BallRenderer
+ *
+ * This class draws billiard balls on the canvas. Plain colored balls are drawn with the sprite
+ * for their color/type, or as a circle of their color when there is no sprite for it, while numbered balls are drawn as a colored circle, or a white circle with
+ * a colored band for stripes, carrying their number. Balls sinking into a pocket shrink as they drop.
+ */
+export class BallRenderer {
+
+  //------Private Methods------//
+
+  /**
+   * Resolves the sprite image for a ball based on its color/type.
+   *
+   * @param {Color} color - The color/type of the ball.
+   * @returns {HTMLImageElement} The image representing the ball, or null if there is no sprite for its color.
+   */
+  private resolveSprite(color: Color): HTMLImageElement {
+    switch (color) {
+      case Color.white:
+        return Assets.getSprite(sprites.paths.cueBall);
+
+      case Color.black:
+        return Assets.getSprite(sprites.paths.blackBall);
+
+      case Color.red:
+        return Assets.getSprite(sprites.paths.redBall);
+
+      case Color.yellow:
+        return Assets.getSprite(sprites.paths.yellowBall);
+
+      default:
+        return null;
+    }
+  }
+
+  //------Public Methods------//
+
+  /**
+   * Draws a numbered ball: a solid ball in its color, or a stripe with a band of its color,
+   * with the number on a white disc in the middle.
+   *
+   * @param {number} number - The number of the ball.
+   * @param {IVector2} position - The centre of the ball.
+   * @param {number} [scale=1] - The size of the ball relative to a ball on the table (default is 1).
+   */
+  public drawNumbered(number: number, position: IVector2, scale: number = 1): void {
+    const radius: number = ballConfig.diameter / 2 * scale;
+    const color: string = ballConfig.numberedColors[(number - 1) % 8];
+
+    if (number > 8) {
+      Canvas2D.drawCircle(position, radius, ballConfig.numberedBaseColor);
+      Canvas2D.drawCircleBand(position, radius, radius * 0.6, color);
+    }
+    else {
+      Canvas2D.drawCircle(position, radius, color);
+    }
+
+    const font: string = `bold ${ballConfig.numberFontSize * scale}px ${ballConfig.numberFont}`;
+    Canvas2D.drawCircle(position, radius * 0.5, ballConfig.numberedBaseColor);
+    Canvas2D.drawText(number.toString(), font, ballConfig.numberColor, position, 'center', 'middle');
+  }
+
+  /**
+   * Draws a ball on the canvas at its current position if it is visible.
+   * A ball sinking into a pocket shrinks as it drops.
+   *
+   * @param {Ball} ball - The ball to draw.
+   */
+  public draw(ball: Ball): void {
+    if (ball.visible) {
+      const scale: number = 1 - ballConfig.droppedScale * ball.dropProgress;
+      if (ball.number > 0) {
+        this.drawNumbered(ball.number, ball.position, scale);
+      }
+      else if (this.resolveSprite(ball.color)) {
+        Canvas2D.drawImage(this.resolveSprite(ball.color), ball.position, 0, ballConfig.origin, scale);
+      }
+      else {
+        Canvas2D.drawCircle(ball.position, ballConfig.diameter / 2 * scale, ball.color);
+      }
+    }
+  }
+}
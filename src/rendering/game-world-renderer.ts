@@ -0,0 +1,382 @@
+import { IAssetsConfig, IBallConfig, ICallMarkerConfig, IKitchenZoneConfig, ILabel, ILabelsConfig, IMatchScoreConfig, ISnookerMarkingsConfig, ISnookerSpotsConfig, ITableConfig, IVector2 } from './../game.config.type';
+import { GameConfig } from '../game.config';
+import { Canvas2D } from '../canvas';
+import { Assets } from '../assets';
+import { Color } from '../common/color';
+import { Vector2 } from '../physics/vector2';
+import { GameWorld } from '../game-objects/game-world';
+import { Player } from '../game-objects/player';
+import { Ball } from '../game-objects/ball';
+import { GameMode } from '../game-objects/game-mode';
+import { TurnPhase } from '../game-objects/turn-phase';
+import { FoulType } from '../rules/foul-type';
+import { BallInHandZone } from '../rules/ball-in-hand-zone';
+import { AI } from '../ai/ai-trainer';
+import { BallRenderer } from './ball-renderer';
+import { StickRenderer } from './stick-renderer';
+
+//------Configurations------//
+
+// Load configurations from the game configuration
+const labelsConfig: ILabelsConfig = GameConfig.labels;
+const matchScoreConfig: IMatchScoreConfig = GameConfig.matchScore;
+const ballConfig: IBallConfig = GameConfig.ball;
+const callMarkerConfig: ICallMarkerConfig = GameConfig.callMarker;
+const kitchenZoneConfig: IKitchenZoneConfig = GameConfig.kitchenZone;
+const snookerMarkingsConfig: ISnookerMarkingsConfig = GameConfig.snookerMarkings;
+const gameSize: IVector2 = GameConfig.gameSize;
+const sprites: IAssetsConfig = GameConfig.sprites;
+
+/**
+ * GameWorldRenderer
+ *
+ * This class draws a game world on the canvas: the table, the balls, the stick and
+ * the labels and scores around the table. It only reads the game world, so the
+ * simulation itself never touches the canvas.
+ */
+export class GameWorldRenderer {
+
+  //------Members------//
+
+  private _ballRenderer: BallRenderer = new BallRenderer();   // Draws the balls
+  private _stickRenderer: StickRenderer = new StickRenderer(); // Draws the stick and the tip indicator
+
+  //------Private Methods------//
+
+  /**
+   * Draws the label for the current player, indicating whose turn it is.
+   *
+   * @param {GameWorld} gameWorld - The game world being drawn.
+   */
+  private drawCurrentPlayerLabel(gameWorld: GameWorld): void {
+
+    Canvas2D.drawText(
+      labelsConfig.currentPlayer.text + (gameWorld.currentPlayerIndex + 1),
+      labelsConfig.currentPlayer.font,
+      labelsConfig.currentPlayer.color,
+      labelsConfig.currentPlayer.position,
+      labelsConfig.currentPlayer.alignment
+    );
+  }
+
+  /**
+   * Draws the visits the current player has left, while they carry a visit after a foul against them.
+   *
+   * @param {GameWorld} gameWorld - The game world being drawn.
+   */
+  private drawVisitsLabel(gameWorld: GameWorld): void {
+    const visits: number = gameWorld.currentPlayer.visits;
+
+    if (visits > 1) {
+      Canvas2D.drawText(
+        labelsConfig.visits.text + visits,
+        labelsConfig.visits.font,
+        labelsConfig.visits.color,
+        labelsConfig.visits.position,
+        labelsConfig.visits.alignment
+      );
+    }
+  }
+
+  /**
+   * Draws a label with its configured text.
+   *
+   * @param {ILabel} label - The label to draw.
+   */
+  private drawLabel(label: ILabel): void {
+    Canvas2D.drawText(label.text, label.font, label.color, label.position, label.alignment);
+  }
+
+  /**
+   * Draws the labels of the options after the break: the offer to push out on the shot after the break,
+   * the declared push-out, the question to the opponent once the push-out is played, and the question
+   * to the opponent of an illegal break.
+   *
+   * @param {GameWorld} gameWorld - The game world being drawn.
+   */
+  private drawBreakOptionsLabel(gameWorld: GameWorld): void {
+    if (gameWorld.turnPhase === TurnPhase.BreakDecision) {
+      this.drawLabel(labelsConfig.breakDecision);
+    }
+    else if (gameWorld.turnPhase === TurnPhase.PushOutDecision) {
+      this.drawLabel(labelsConfig.pushOutDecision);
+    }
+    else if (gameWorld.isPushOut) {
+      this.drawLabel(labelsConfig.pushOut);
+    }
+    else if (gameWorld.turnPhase === TurnPhase.PushOutAllowed && gameWorld.stick.movable) {
+      this.drawLabel(labelsConfig.pushOutOffer);
+    }
+  }
+
+  /**
+   * Draws the markings of the snooker table on the cloth: the baulk line, the D behind it
+   * and the spots of the six colours.
+   *
+   * @param {GameWorld} gameWorld - The game world being drawn.
+   */
+  private drawSnookerMarkings(gameWorld: GameWorld): void {
+    const table: ITableConfig = gameWorld.table;
+    const spots: ISnookerSpotsConfig = GameConfig.snookerSpots;
+    const lineWidth: number = snookerMarkingsConfig.lineWidth;
+
+    Canvas2D.drawRect(
+      { x: GameConfig.baulkLineX - lineWidth / 2, y: table.cushionWidth },
+      { x: lineWidth, y: table.size.y - 2 * table.cushionWidth },
+      snookerMarkingsConfig.color
+    );
+    Canvas2D.drawArc(spots.brown, GameConfig.dRadius, Math.PI / 2, 3 * Math.PI / 2, lineWidth, snookerMarkingsConfig.color);
+    [spots.yellow, spots.green, spots.brown, spots.blue, spots.pink, spots.black]
+      .forEach((spot: IVector2) => Canvas2D.drawCircle(spot, snookerMarkingsConfig.spotRadius, snookerMarkingsConfig.color));
+  }
+
+  /**
+   * Draws the zone the cue ball in hand may only be placed in: the kitchen, the area behind the head string,
+   * or the D of a snooker table.
+   *
+   * @param {GameWorld} gameWorld - The game world being drawn.
+   */
+  private drawBallInHandZone(gameWorld: GameWorld): void {
+    if (gameWorld.isBallInHand && gameWorld.ballInHandZone === BallInHandZone.D) {
+      Canvas2D.drawSector(GameConfig.snookerSpots.brown, GameConfig.dRadius, Math.PI / 2, 3 * Math.PI / 2, kitchenZoneConfig.color);
+    }
+    if (gameWorld.isBallInHand && gameWorld.ballInHandZone === BallInHandZone.Kitchen) {
+      const cushionWidth: number = gameWorld.table.cushionWidth;
+
+      Canvas2D.drawRect(
+        { x: cushionWidth, y: cushionWidth },
+        { x: GameConfig.headStringX - cushionWidth, y: gameWorld.table.size.y - 2 * cushionWidth },
+        kitchenZoneConfig.color
+      );
+    }
+  }
+
+  /**
+   * Draws the call of the shot: a ring around the called ball and the called pocket.
+   *
+   * @param {GameWorld} gameWorld - The game world being drawn.
+   */
+  private drawCall(gameWorld: GameWorld): void {
+    const calledBall: Ball = gameWorld.calledBall;
+    const calledPocket: number = gameWorld.calledPocket;
+
+    if (calledBall && calledBall.onTable) {
+      Canvas2D.drawRing(calledBall.position, callMarkerConfig.ballRadius, callMarkerConfig.lineWidth, callMarkerConfig.color);
+    }
+    if (calledPocket !== null) {
+      Canvas2D.drawRing(gameWorld.table.pocketsPositions[calledPocket], callMarkerConfig.pocketRadius, callMarkerConfig.lineWidth, callMarkerConfig.color);
+    }
+  }
+
+  /**
+   * Draws the label asking for the call of the shot while it is not complete.
+   *
+   * @param {GameWorld} gameWorld - The game world being drawn.
+   */
+  private drawCallLabel(gameWorld: GameWorld): void {
+    if (gameWorld.isCallPending && gameWorld.stick.movable && AI.finishedSession) {
+      this.drawLabel(labelsConfig.callShot);
+    }
+  }
+
+  /**
+   * Draws the table and what lies on it: the markings of a snooker table, the zone the cue ball in hand may be placed in, the balls,
+   * the call of the shot and the stick. The table is drawn zoomed to fit the screen, so a table larger
+   * than the pool table is drawn smaller, with its balls.
+   *
+   * @param {GameWorld} gameWorld - The game world being drawn.
+   */
+  private drawTable(gameWorld: GameWorld): void {
+    const table: ITableConfig = gameWorld.table;
+    const tableSprite: HTMLImageElement = Assets.getSprite(sprites.paths[table.sprite]);
+
+    Canvas2D.zoom = gameSize.x / table.size.x;
+    Canvas2D.drawImage(tableSprite, Vector2.zero, 0, Vector2.zero, table.size.x / tableSprite.width);
+    if (gameWorld.gameMode === GameMode.Snooker) {
+      this.drawSnookerMarkings(gameWorld);
+    }
+    this.drawBallInHandZone(gameWorld);
+    gameWorld.balls.forEach((ball: Ball) => this._ballRenderer.draw(ball));
+    this.drawCall(gameWorld);
+    if (AI.finishedSession) {
+      this._stickRenderer.draw(gameWorld.stick);
+    }
+    else {
+      this._stickRenderer.drawThinking(gameWorld.stick, performance.now());
+    }
+    Canvas2D.zoom = 1;
+  }
+
+  /**
+   * Draws the fouls of the previous turn, so the players know why the table changed hands.
+   *
+   * @param {GameWorld} gameWorld - The game world being drawn.
+   */
+  private drawFoulLabel(gameWorld: GameWorld): void {
+    const fouls: FoulType[] = gameWorld.lastVerdict.fouls;
+
+    if (fouls.length > 0) {
+      Canvas2D.drawText(
+        labelsConfig.foul.text + fouls.map((foul: FoulType) => labelsConfig.foulReasons[foul]).join(', '),
+        labelsConfig.foul.font,
+        labelsConfig.foul.color,
+        labelsConfig.foul.position,
+        labelsConfig.foul.alignment
+      );
+    }
+  }
+
+  /**
+   * Gets the numbered balls a player in 8-ball has pocketed: the balls of their group,
+   * then the 8-ball, that are no longer on the table.
+   *
+   * @param {Player} player - The player, assigned to solids or stripes.
+   * @param {Ball[]} balls - The balls still on the table.
+   * @returns {number[]} The numbers of the player's pocketed balls, in order.
+   */
+  private getPocketedNumbers(player: Player, balls: Ball[]): number[] {
+    const group: number[] = player.color === Color.solid ? [1, 2, 3, 4, 5, 6, 7] : [9, 10, 11, 12, 13, 14, 15];
+
+    return [...group, 8].filter((number: number) => !balls.some((ball: Ball) => ball.number === number));
+  }
+
+  /**
+   * Draws the match scores for each player, indicating the balls pocketed. Players of red and yellow
+   * get a counter in their color; players of solids and stripes see the numbered balls they have pocketed.
+   *
+   * @param {Player[]} players - The players of the match.
+   * @param {Ball[]} balls - The balls still on the table.
+   */
+  private drawMatchScores(players: Player[], balls: Ball[]): void {
+    for (let i = 0; i < players.length; i++) {
+      if (players[i].color === Color.solid || players[i].color === Color.striped) {
+        this.getPocketedNumbers(players[i], balls).forEach((number: number, j: number) => {
+          const iconPosition: Vector2 = Vector2.copy(matchScoreConfig.scoresPositions[i])
+            .addToX(j * matchScoreConfig.unitMargin)
+            .add(new Vector2(matchScoreConfig.unitMargin / 2, matchScoreConfig.unitMargin / 2));
+          this._ballRenderer.drawNumbered(number, iconPosition, matchScoreConfig.unitMargin / ballConfig.diameter);
+        });
+        continue;
+      }
+
+      for (let j = 0; j < players[i].matchScore; j++) {
+        const scorePosition: Vector2 = Vector2.copy(matchScoreConfig.scoresPositions[i]).addToX(j * matchScoreConfig.unitMargin);
+        const scoreSprite: HTMLImageElement = players[i].color === Color.red ? Assets.getSprite(sprites.paths.redScore) : Assets.getSprite(sprites.paths.yellowScore);
+        Canvas2D.drawImage(scoreSprite, scorePosition);
+      }
+    }
+  }
+
+  /**
+   * Draws the numbered balls left on the table in a row, in order, so players of 9-ball
+   * can see which ball they have to hit next.
+   *
+   * @param {Ball[]} balls - The balls still on the table.
+   */
+  private drawBallsOnTable(balls: Ball[]): void {
+    balls
+      .filter((ball: Ball) => ball.number > 0)
+      .map((ball: Ball) => ball.number)
+      .sort((a: number, b: number) => a - b)
+      .forEach((number: number, i: number) => {
+        const iconPosition: Vector2 = Vector2.copy(matchScoreConfig.ballsOnTablePosition)
+          .addToX(i * matchScoreConfig.unitMargin)
+          .add(new Vector2(matchScoreConfig.unitMargin / 2, matchScoreConfig.unitMargin / 2));
+        this._ballRenderer.drawNumbered(number, iconPosition, matchScoreConfig.unitMargin / ballConfig.diameter);
+      });
+  }
+
+  /**
+   * Draws the points of each player, in games scored by points.
+   *
+   * @param {Player[]} players - The players of the match.
+   */
+  private drawPoints(players: Player[]): void {
+    for (let i = 0; i < players.length; i++) {
+      Canvas2D.drawText(
+        labelsConfig.points[i].text + players[i].points,
+        labelsConfig.points[i].font,
+        labelsConfig.points[i].color,
+        labelsConfig.points[i].position,
+        labelsConfig.points[i].alignment
+      );
+    }
+  }
+
+  /**
+   * Draws the current player's break and the points remaining on the table, in snooker.
+   *
+   * @param {GameWorld} gameWorld - The game world being drawn.
+   */
+  private drawBreakLabels(gameWorld: GameWorld): void {
+    Canvas2D.drawText(
+      labelsConfig.currentBreak.text + gameWorld.currentPlayer.currentBreak,
+      labelsConfig.currentBreak.font,
+      labelsConfig.currentBreak.color,
+      labelsConfig.currentBreak.position,
+      labelsConfig.currentBreak.alignment
+    );
+    Canvas2D.drawText(
+      labelsConfig.pointsRemaining.text + gameWorld.pointsRemaining,
+      labelsConfig.pointsRemaining.font,
+      labelsConfig.pointsRemaining.color,
+      labelsConfig.pointsRemaining.position,
+      labelsConfig.pointsRemaining.alignment
+    );
+  }
+
+  /**
+   * Draws the overall scores for each player, indicating their total score across all matches.
+   *
+   * @param {Player[]} players - The players of the match.
+   */
+  private drawOverallScores(players: Player[]): void {
+    for (let i = 0; i < players.length; i++) {
+      Canvas2D.drawText(
+        players[i].overallScore.toString(),
+        labelsConfig.overalScores[i].font,
+        labelsConfig.overalScores[i].color,
+        labelsConfig.overalScores[i].position,
+        labelsConfig.overalScores[i].alignment
+      );
+    }
+  }
+
+  //------Public Methods------//
+
+  /**
+   * Draws the entire game world: the table with the balls and the stick, and then the labels and scores
+   * on the rails around it. This method is called on every frame to render the game's visuals. While
+   * the AI thinks about its turn, a label says so in place of the options of the turn, and the stick is animated.
+   *
+   * @param {GameWorld} gameWorld - The game world to draw.
+   */
+  public draw(gameWorld: GameWorld): void {
+    this.drawTable(gameWorld);
+    this.drawCurrentPlayerLabel(gameWorld);
+    this.drawVisitsLabel(gameWorld);
+    if (gameWorld.gameMode === GameMode.NineBall) {
+      this.drawBallsOnTable(gameWorld.balls);
+    }
+    else if (gameWorld.gameMode === GameMode.StraightPool) {
+      this.drawPoints(gameWorld.players);
+    }
+    else if (gameWorld.gameMode === GameMode.Snooker) {
+      this.drawPoints(gameWorld.players);
+      this.drawBreakLabels(gameWorld);
+    }
+    else {
+      this.drawMatchScores(gameWorld.players, gameWorld.balls);
+    }
+    this.drawOverallScores(gameWorld.players);
+    if (AI.finishedSession) {
+      this.drawBreakOptionsLabel(gameWorld);
+      this._stickRenderer.drawTipIndicator(gameWorld.stick);
+    }
+    else {
+      this.drawLabel(labelsConfig.aiThinking);
+    }
+    this.drawFoulLabel(gameWorld);
+    this.drawCallLabel(gameWorld);
+  }
+}
@@ -0,0 +1,71 @@
+import { ITipIndicatorConfig, IAssetsConfig, IThinkingCueConfig } from './../game.config.type';
+import { GameConfig } from '../game.config';
+import { Canvas2D } from '../canvas';
+import { Assets } from '../assets';
+import { Vector2 } from '../physics/vector2';
+import { Stick } from '../game-objects/stick';
+
+//------Configurations------//
+
+// Load configurations from the game configuration
+const tipIndicatorConfig: ITipIndicatorConfig = GameConfig.tipIndicator;
+const thinkingCueConfig: IThinkingCueConfig = GameConfig.thinkingCue;
+const sprites: IAssetsConfig = GameConfig.sprites;
+
+/**
+ * StickRenderer
+ *
+ * This class draws the cue stick on the canvas, together with the indicator
+ * showing where its tip will strike the cue ball.
+ */
+export class StickRenderer {
+
+  //------Public Methods------//
+
+  /**
+   * Draws the stick on the canvas at its current position and rotation if it is visible.
+   *
+   * @param {Stick} stick - The stick to draw.
+   */
+  public draw(stick: Stick): void {
+    if (stick.visible) {
+      Canvas2D.drawImage(Assets.getSprite(sprites.paths.stick), stick.position, stick.rotation, stick.origin); // Draw the stick on the canvas
+    }
+  }
+
+  /**
+   * Draws the tip indicator on the rail while the stick is visible: a cue ball with a dot marking
+   * where the tip will strike it.
+   *
+   * @param {Stick} stick - The stick whose tip offset is shown.
+   */
+  public drawTipIndicator(stick: Stick): void {
+    if (stick.visible) {
+      const tipPosition: Vector2 = Vector2.copy(tipIndicatorConfig.position).add(
+        new Vector2(stick.tipOffset.x, -stick.tipOffset.y).mult(tipIndicatorConfig.radius - tipIndicatorConfig.tipRadius)
+      );
+
+      Canvas2D.drawCircle(tipIndicatorConfig.position, tipIndicatorConfig.radius, tipIndicatorConfig.ballColor);
+      Canvas2D.drawCircle(tipPosition, tipIndicatorConfig.tipRadius, tipIndicatorConfig.tipColor);
+    }
+  }
+
+  /**
+   * Draws the stick while the AI thinks about its shot, swaying around its aim and stroking back and forth
+   * like a player sizing up the shot. Only the drawing moves: the stick itself keeps its rotation and origin.
+   *
+   * @param {Stick} stick - The stick to draw.
+   * @param {number} time - The current time (ms), which drives the animation.
+   */
+  public drawThinking(stick: Stick, time: number): void {
+    if (stick.visible) {
+      const rotation: number = stick.rotation +
+        thinkingCueConfig.swayAngle * Math.sin(2 * Math.PI * time / thinkingCueConfig.swayPeriod);
+      const origin: Vector2 = Vector2.copy(stick.origin).addToX(
+        thinkingCueConfig.strokeLength * (1 - Math.cos(2 * Math.PI * time / thinkingCueConfig.strokePeriod)) / 2
+      );
+
+      Canvas2D.drawImage(Assets.getSprite(sprites.paths.stick), stick.position, rotation, origin);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * BallInHandZone
+ *
+ * This enum defines where a player with the cue ball in hand may place it, if the foul gives them
+ * the cue ball in hand at all.
+ */
+export enum BallInHandZone {
+  /**
+   * Table
+   *
+   * Anywhere on the bed of the table that does not overlap another ball.
+   */
+  Table,
+
+  /**
+   * Kitchen
+   *
+   * Behind the head string only, and the shot must then be played out of the kitchen.
+   */
+  Kitchen,
+
+  /**
+   * D
+   *
+   * Inside the D of a snooker table only, the half circle behind the baulk line.
+   */
+  D,
+
+  /**
+   * None
+   *
+   * The cue ball is not in hand and is played from where it lies.
+   */
+  None
+}
@@ -0,0 +1,105 @@
+import { IBlackballRulesConfig } from '../game.config.type';
+import { GameConfig } from '../game.config';
+import { Color } from '../common/color';
+import { Vector2 } from '../physics/vector2';
+import { Ball } from '../game-objects/ball';
+import { GameMode } from '../game-objects/game-mode';
+import { State } from '../game-objects/state';
+import { GroupRuleSet } from './group-rule-set';
+import { BallInHandZone } from './ball-in-hand-zone';
+import { FoulType } from './foul-type';
+import { getCushionFouls } from './cushion-fouls';
+
+//------Configurations------//
+
+// Load configurations from the game configuration
+const blackballRulesConfig: IBlackballRulesConfig = GameConfig.blackballRules;
+
+/**
+ * BlackballRuleSet
+ *
+ * This class defines the rules of blackball, as played on UK pub tables: one player takes the seven
+ * red balls, the other the seven yellow balls, and the first to pocket their group and then the black wins.
+ * After a foul the cue ball is played from behind the head string. With the two-visit penalty the opponent
+ * of a player who fouled gets two visits instead, and only takes the cue ball in hand if it was pocketed.
+ * The cushion rules of 8-ball, and the choice to re-rack after an illegal break, may be played too.
+ */
+export class BlackballRuleSet extends GroupRuleSet {
+
+  //------Properties------//
+
+  /**
+   * Gets the game mode these rules are for.
+   *
+   * @returns {GameMode} Blackball.
+   */
+  public get gameMode(): GameMode {
+    return GameMode.Blackball;
+  }
+
+  /**
+   * Gets the number of visits at the table the opponent of a player who fouled gets.
+   *
+   * @returns {number} Two with the two-visit penalty, one otherwise.
+   */
+  public get visitsAfterFoul(): number {
+    return blackballRulesConfig.twoVisits ? 2 : 1;
+  }
+
+  /**
+   * Gets whether the opponent of an illegal break may choose to re-rack and break.
+   *
+   * @returns {boolean} True if blackball checks the cushions, as only then is a break illegal.
+   */
+  public get illegalBreakOption(): boolean {
+    return blackballRulesConfig.cushionChecks;
+  }
+
+  //------Protected Methods------//
+
+  /**
+   * Gets the fouls of the rules requiring balls to reach the cushions, if blackball checks them:
+   * a rail after the first contact and enough balls driven to the cushions on the break.
+   *
+   * @param {State} state - The state of the turn, including the pocketed balls and the cushion contacts.
+   * @returns {FoulType[]} The fouls of the cushion rules, if any.
+   */
+  protected getCushionFouls(state: State): FoulType[] {
+    return blackballRulesConfig.cushionChecks ? getCushionFouls(state) : [];
+  }
+
+  //------Public Methods------//
+
+  /**
+   * Gets where the opponent of a player who fouled may place the cue ball in hand, which is
+   * behind the head string in blackball. With the two-visit penalty the cue ball is only in hand
+   * if it was pocketed, and is otherwise played from where it lies, as it is after an illegal break alone.
+   *
+   * @param {State} state - The judged state of the turn on which the foul was committed.
+   * @returns {BallInHandZone} The kitchen, or none if the cue ball is played from where it lies.
+   */
+  public getBallInHandZone(state: State): BallInHandZone {
+    const scratched: boolean = state.pocketedBalls.some((ball: Ball) => ball.color === Color.white);
+    const playedAsItLies: boolean = blackballRulesConfig.twoVisits || this.isTakenAsItLies(state);
+
+    return !playedAsItLies || scratched ? BallInHandZone.Kitchen : BallInHandZone.None;
+  }
+
+  /**
+   * Creates the object balls of a blackball rack: seven red and seven yellow balls
+   * around the black.
+   *
+   * @returns {Ball[]} The racked object balls.
+   */
+  public rackBalls(): Ball[] {
+    const redBalls: Ball[] = GameConfig.redBallsPositions
+      .map((position: Vector2) => new Ball(Vector2.copy(position), Color.yellow));
+
+    const yellowBalls: Ball[] = GameConfig.yellowBallsPositions
+      .map((position: Vector2) => new Ball(Vector2.copy(position), Color.red));
+
+    const blackBall: Ball = new Ball(Vector2.copy(GameConfig.eightBallPosition), Color.black);
+
+    return [...redBalls, ...yellowBalls, blackBall];
+  }
+}
@@ -0,0 +1,10 @@
+import { State } from '../game-objects/state';
+
+/**
+ * Checks whether the call of a turn was made: the called ball dropped into the called pocket.
+ *
+ * @param {State} state - The state of the turn, including the call and the pockets the balls dropped into.
+ * @returns {boolean} True if the called ball went into the called pocket, false otherwise.
+ */
+export const isCallMade = (state: State): boolean =>
+  !!state.calledBall && state.ballPockets.get(state.calledBall) === state.calledPocket;
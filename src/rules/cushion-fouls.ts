@@ -0,0 +1,36 @@
+import { ICushionRulesConfig } from '../game.config.type';
+import { GameConfig } from '../game.config';
+import { Color } from '../common/color';
+import { Ball } from '../game-objects/ball';
+import { State } from '../game-objects/state';
+import { FoulType } from './foul-type';
+
+//------Configurations------//
+
+// Load configurations from the game configuration
+const cushionRulesConfig: ICushionRulesConfig = GameConfig.cushionRules;
+
+/**
+ * Gets the fouls of the rules requiring balls to reach the cushions, shared by blackball, 8-ball and 9-ball.
+ * A turn pocketing an object ball meets both rules. Otherwise the break must drive enough object balls
+ * to the cushions, and any other shot must send a ball to a cushion after the first contact.
+ *
+ * @param {State} state - The state of the turn, including the pocketed balls and the cushion contacts.
+ * @returns {FoulType[]} The fouls of the cushion rules, if any.
+ */
+export const getCushionFouls = (state: State): FoulType[] => {
+  const isObjectBall = (ball: Ball): boolean => ball.color !== Color.white;
+
+  if (state.pocketedBalls.some(isObjectBall)) {
+    return [];
+  }
+  if (state.isBreak) {
+    const cushionBalls: Ball[] = state.cushionContacts
+      .filter((ball: Ball, i: number) => isObjectBall(ball) && state.cushionContacts.indexOf(ball) === i);
+    return cushionBalls.length < cushionRulesConfig.breakCushionBalls ? [FoulType.IllegalBreak] : [];
+  }
+  if (cushionRulesConfig.railAfterContact && state.firstCollidedBall && state.cushionContacts.length === 0) {
+    return [FoulType.NoRailAfterContact];
+  }
+  return [];
+};
@@ -0,0 +1,159 @@
+import { ICallShotRulesConfig, IVector2 } from '../game.config.type';
+import { GameConfig } from '../game.config';
+import { Vector2 } from '../physics/vector2';
+import { Random } from '../common/random';
+import { Color } from '../common/color';
+import { Ball } from '../game-objects/ball';
+import { Player } from '../game-objects/player';
+import { GameMode } from '../game-objects/game-mode';
+import { State } from '../game-objects/state';
+import { GroupRuleSet } from './group-rule-set';
+import { FoulType } from './foul-type';
+import { IVerdict } from './verdict';
+import { getCushionFouls } from './cushion-fouls';
+import { isCallMade } from './called-shot';
+
+//------Configurations------//
+
+// Load configurations from the game configuration
+const callShotRulesConfig: ICallShotRulesConfig = GameConfig.callShotRules;
+
+/**
+ * EightBallRuleSet
+ *
+ * This class defines the rules of American 8-ball: one player takes the solids numbered 1 to 7,
+ * the other the stripes numbered 9 to 15, and the first to pocket their group and then the 8-ball wins.
+ * Every shot must send a ball to a cushion after the first contact, and the break must open the rack.
+ * In the call-shot mode the shooter nominates the ball and the pocket of their shots, and the 8-ball
+ * has to drop into the pocket called for it. An 8-ball pocketed on the break is spotted again, and a scratch
+ * while on the 8-ball only gives the opponent the cue ball in hand.
+ */
+export class EightBallRuleSet extends GroupRuleSet {
+
+  //------Properties------//
+
+  /**
+   * Gets the game mode these rules are for.
+   *
+   * @returns {GameMode} 8-ball.
+   */
+  public get gameMode(): GameMode {
+    return GameMode.EightBall;
+  }
+
+  /**
+   * Gets whether the opponent of an illegal break may choose to re-rack and break.
+   *
+   * @returns {boolean} True, as the opponent may play on or re-rack.
+   */
+  public get illegalBreakOption(): boolean {
+    return true;
+  }
+
+  //------Protected Methods------//
+
+  /**
+   * Gets the fouls of the rules requiring balls to reach the cushions: a rail after the first contact
+   * and enough balls driven to the cushions on the break.
+   *
+   * @param {State} state - The state of the turn, including the pocketed balls and the cushion contacts.
+   * @returns {FoulType[]} The fouls of the cushion rules, if any.
+   */
+  protected getCushionFouls(state: State): FoulType[] {
+    return getCushionFouls(state);
+  }
+
+  /**
+   * Gets the fouls of the called shots: pocketing the 8-ball in a pocket that was not called for it.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The state of the turn, including the call and the pocketed balls.
+   * @returns {FoulType[]} The fouls of the called shots, if any.
+   */
+  protected getCallFouls(player: Player, state: State): FoulType[] {
+    const eightBallPocketed: boolean = state.pocketedBalls.some((ball: Ball) => ball.color === Color.black);
+    const eightBallCalled: boolean = isCallMade(state) && state.calledBall.color === Color.black;
+
+    return this.isCallRequired(player, state) && eightBallPocketed && !eightBallCalled ? [FoulType.EightBallNotCalled] : [];
+  }
+
+  //------Public Methods------//
+
+  /**
+   * Creates the object balls of an 8-ball rack. The 8-ball sits in the centre of the triangle,
+   * a solid and a stripe take the two back corners in either order, and the other balls fill
+   * the remaining spots at random.
+   *
+   * @returns {Ball[]} The racked object balls.
+   */
+  public rackBalls(): Ball[] {
+    const spots: IVector2[] = GameConfig.triangleRackPositions;
+    const solids: number[] = Random.shuffle([1, 2, 3, 4, 5, 6, 7]);
+    const stripes: number[] = Random.shuffle([9, 10, 11, 12, 13, 14, 15]);
+
+    const corners: number[] = Random.shuffle([solids[0], stripes[0]]);
+    const others: number[] = Random.shuffle([...solids.slice(1), ...stripes.slice(1)]);
+
+    // The spots row by row from the apex: the 5th is the centre and the 11th and 15th are the back corners
+    const numbers: number[] = [
+      others[0],
+      others[1], others[2],
+      others[3], 8, others[4],
+      others[5], others[6], others[7], others[8],
+      corners[0], others[9], others[10], others[11], corners[1],
+    ];
+
+    return numbers.map((number: number, i: number) => Ball.numbered(Vector2.copy(spots[i]), number));
+  }
+
+  /**
+   * Judges the player's turn like the other group games, except that pocketing the 8-ball on the break
+   * is not a foul, as it is spotted again.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The current state of the game, including the first collided ball and pocketed balls.
+   * @param {Ball[]} balls - The balls left on the table once the pocketed object balls are taken off.
+   * @returns {IVerdict} The verdict listing the fouls of the turn.
+   */
+  public judgeTurn(player: Player, state: State, balls: Ball[]): IVerdict {
+    const verdict: IVerdict = super.judgeTurn(player, state, balls);
+
+    return state.isBreak ? { fouls: verdict.fouls.filter((foul: FoulType) => foul !== FoulType.EightBallEarly) } : verdict;
+  }
+
+  /**
+   * Gets the pocketed balls that have to be put back on the table at the end of the turn.
+   *
+   * @param {State} state - The state of the turn that ended.
+   * @returns {Ball[]} The 8-ball if it was pocketed on the break, and no ball otherwise.
+   */
+  public getBallsToSpot(state: State): Ball[] {
+    return state.isBreak ? state.pocketedBalls.filter((ball: Ball) => ball.color === Color.black) : [];
+  }
+
+  /**
+   * Determines if the game is over: the 8-ball was pocketed after the break. A scratch while the player
+   * is on the 8-ball is a foul like any other, and does not end the game.
+   *
+   * @param {Player} currentPlayer - The player currently taking their turn.
+   * @param {State} state - The state of the turn, including the pocketed balls.
+   * @returns {boolean} True if the game is over, false otherwise.
+   */
+  public isGameOver(currentPlayer: Player, state: State): boolean {
+    return !state.isBreak && state.pocketedBalls.some((ball: Ball) => ball.color === Color.black);
+  }
+
+  /**
+   * Determines if the player has to call their shot: in the call-shot mode every shot after the break
+   * is called, or only the shots at the 8-ball if just the 8-ball is called.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The state of the turn.
+   * @returns {boolean} True if the shot has to be called, false otherwise.
+   */
+  public isCallRequired(player: Player, state: State): boolean {
+    const onEightBall: boolean = !!player.color && player.matchScore >= 7;
+
+    return callShotRulesConfig.on && !state.isBreak && (callShotRulesConfig.everyBall || onEightBall);
+  }
+}
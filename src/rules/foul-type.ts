@@ -0,0 +1,78 @@
+/**
+ * FoulType
+ *
+ * This enum defines the fouls a rule set can call on a turn. A turn with no fouls is legal,
+ * and each foul gives the opponent the table with the cue ball in hand.
+ */
+export enum FoulType {
+  /**
+   * NoBallHit
+   *
+   * The cue ball did not touch any object ball.
+   */
+  NoBallHit,
+
+  /**
+   * WrongBallFirst
+   *
+   * The first ball the cue ball touched was not one the player was allowed to hit first.
+   */
+  WrongBallFirst,
+
+  /**
+   * Scratch
+   *
+   * The cue ball was pocketed.
+   */
+  Scratch,
+
+  /**
+   * NoRailAfterContact
+   *
+   * No ball was pocketed and no ball reached a cushion after the cue ball's first contact.
+   */
+  NoRailAfterContact,
+
+  /**
+   * WrongGroupPocketed
+   *
+   * A ball of the opponent's group was pocketed, or balls of both groups on an open table.
+   */
+  WrongGroupPocketed,
+
+  /**
+   * EightBallEarly
+   *
+   * The black ball was pocketed before the player had cleared their group.
+   */
+  EightBallEarly,
+
+  /**
+   * EightBallNotCalled
+   *
+   * The 8-ball was pocketed in a called game without being called for the pocket it dropped into.
+   */
+  EightBallNotCalled,
+
+  /**
+   * IllegalBreak
+   *
+   * The break pocketed no ball and drove too few object balls to the cushions.
+   */
+  IllegalBreak,
+
+  /**
+   * BallNotOnPocketed
+   *
+   * A ball the player was not on was pocketed in snooker, such as a red while on a colour.
+   */
+  BallNotOnPocketed,
+
+  /**
+   * IllegalOpeningBreak
+   *
+   * The opening break of straight pool neither made its call nor drove two object balls
+   * and the cue ball to the cushions.
+   */
+  IllegalOpeningBreak
+}
@@ -0,0 +1,23 @@
+/**
+ * GroupAssignment
+ *
+ * This enum defines how the players of a game with groups of balls are given their groups.
+ */
+export enum GroupAssignment {
+  /**
+   * Casual
+   *
+   * The first group ball pocketed gives its group to the shooter, even on the break or a foul,
+   * and pocketing balls of both groups while the table is open is a foul.
+   */
+  Casual,
+
+  /**
+   * OpenTable
+   *
+   * The table stays open after the break. A group is only given on a legal pot, to the group of
+   * the called ball if the shot was called. Pocketing balls of both groups while the table is open
+   * is legal, and leaves the table open unless the shot was called.
+   */
+  OpenTable
+}
@@ -0,0 +1,470 @@
+import { IGroupRulesConfig, ITableConfig, IVector2 } from '../game.config.type';
+import { GameConfig } from '../game.config';
+import { State } from '../game-objects/state';
+import { Color } from '../common/color';
+import { Ball } from '../game-objects/ball';
+import { Player } from '../game-objects/player';
+import { GameMode } from '../game-objects/game-mode';
+import { IRuleSet } from './rule-set';
+import { IRuleSetSnapshot } from './rule-set-snapshot';
+import { IVerdict } from './verdict';
+import { FoulType } from './foul-type';
+import { isCallMade } from './called-shot';
+import { GroupAssignment } from './group-assignment';
+import { BallInHandZone } from './ball-in-hand-zone';
+
+//------Configurations------//
+
+// Load configurations from the game configuration
+const groupRulesConfig: IGroupRulesConfig = GameConfig.groupRules;
+
+/**
+ * GroupRuleSet
+ *
+ * This class holds the rules shared by the games where each player has a group of balls to pocket
+ * before the black: red and yellow in blackball, solids and stripes in 8-ball. It calls the fouls of
+ * a turn, from the first touch and the pocketed balls, gives the players their groups as configured,
+ * and decides whether the game is over.
+ * The games differ in their balls only, so each one extends this class with its own rack.
+ */
+export abstract class GroupRuleSet implements IRuleSet {
+
+  //------Properties------//
+
+  /**
+   * Gets the game mode these rules are for.
+   *
+   * @returns {GameMode} The game mode.
+   */
+  public abstract get gameMode(): GameMode;
+
+  /**
+   * Gets whether the shot right after the break may be declared a push-out.
+   *
+   * @returns {boolean} False, as push-outs only exist in rotation games.
+   */
+  public get pushOutAfterBreak(): boolean {
+    return false;
+  }
+
+  /**
+   * Gets the number of fouls in a row that makes a player lose the rack.
+   *
+   * @returns {number} Zero, as fouls in a row are not counted in these games.
+   */
+  public get consecutiveFoulsToLose(): number {
+    return 0;
+  }
+
+  /**
+   * Gets whether the opponent of an illegal break may choose to re-rack and break.
+   *
+   * @returns {boolean} False, as these games do not call illegal breaks unless they check the cushions.
+   */
+  public get illegalBreakOption(): boolean {
+    return false;
+  }
+
+  /**
+   * Gets the number of visits at the table the opponent of a player who fouled gets.
+   *
+   * @returns {number} One, as a foul only hands over the table with the cue ball in hand.
+   */
+  public get visitsAfterFoul(): number {
+    return 1;
+  }
+
+  /**
+   * Gets where the cue ball starts the game, and is put back once it has been pocketed.
+   *
+   * @returns {IVector2} The head spot, behind the head string.
+   */
+  public get cueBallPosition(): IVector2 {
+    return GameConfig.cueBallPosition;
+  }
+
+  /**
+   * Gets the table the game is played on.
+   *
+   * @returns {ITableConfig} The pool table.
+   */
+  public get table(): ITableConfig {
+    return GameConfig.table;
+  }
+
+  //------Private Methods------//
+
+  /**
+   * Checks if the ball color is valid for a player's assigned group: red or yellow in blackball,
+   * solids or stripes in 8-ball.
+   *
+   * @param {Color} color - The color of the ball to check.
+   * @returns {boolean} True if the ball color is valid, false otherwise.
+   */
+  private isValidPlayerColor(color: Color): boolean {
+    return color === Color.red || color === Color.yellow || color === Color.solid || color === Color.striped;
+  }
+
+  /**
+   * Gets the group of balls left to the opponent of a player who takes the given group.
+   *
+   * @param {Color} color - The group taken by the player.
+   * @returns {Color} The opponent's group.
+   */
+  private getOpposingColor(color: Color): Color {
+    switch (color) {
+      case Color.red:
+        return Color.yellow;
+
+      case Color.yellow:
+        return Color.red;
+
+      case Color.solid:
+        return Color.striped;
+
+      case Color.striped:
+        return Color.solid;
+    }
+  }
+
+  /**
+   * Gets the group the balls pocketed on a turn give to the shooter. In casual play it is the group of
+   * the first group ball pocketed. On an open table it is decided on a legal pot after the break only:
+   * by the called ball if the shot was called, or by the pocketed balls if they are all of one group.
+   *
+   * @param {State} state - The judged state of the turn, including the pocketed balls and the call.
+   * @returns {Color} The group the shooter takes, or null if the table stays open.
+   */
+  private getPocketedGroup(state: State): Color {
+    const groupBalls: Ball[] = state.pocketedBalls.filter((ball: Ball) => this.isValidPlayerColor(ball.color));
+
+    if (groupRulesConfig.assignment === GroupAssignment.Casual) {
+      return groupBalls.length > 0 ? groupBalls[0].color : null;
+    }
+    if (state.isBreak || !state.isValid) {
+      return null;
+    }
+    if (state.calledBall) {
+      return isCallMade(state) && this.isValidPlayerColor(state.calledBall.color) ? state.calledBall.color : null;
+    }
+    return groupBalls.length > 0 && groupBalls.every((ball: Ball) => ball.color === groupBalls[0].color) ? groupBalls[0].color : null;
+  }
+
+  /**
+   * Determines if the first ball touched by the cue ball is valid according to the game's rules.
+   * This method checks if the player hit the correct ball based on their assigned color, match score,
+   * and whether any balls were pocketed.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {Color} collidedBallColor - The color of the first ball that was collided with.
+   * @param {boolean} somePocketed - Indicates whether any balls were pocketed during the turn.
+   * @returns {boolean} True if the first touch is valid, false otherwise.
+   */
+  private isValidFirstTouch(player: Player, collidedBallColor: Color, somePocketed: boolean): boolean {
+
+    if (!player.color) {
+      return collidedBallColor !== Color.black; // The player is not yet assigned a color, avoid black ball
+    }
+
+    return player.color === collidedBallColor ||
+      (player.matchScore === 1 && somePocketed && collidedBallColor !== Color.black) ||
+      (player.matchScore === 7 && collidedBallColor === Color.black) ||
+      (player.matchScore === 8 && collidedBallColor === Color.black);
+  }
+
+  /**
+   * Gets the fouls of the first touch: hitting no ball at all, or hitting first a ball
+   * the player was not allowed to.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {Color} collidedBallColor - The color of the first ball that was collided with.
+   * @param {boolean} somePocketed - Indicates whether any balls were pocketed during the turn.
+   * @returns {FoulType[]} The fouls of the first touch, if any.
+   */
+  private getFirstTouchFouls(player: Player, collidedBallColor: Color, somePocketed: boolean): FoulType[] {
+    if (!collidedBallColor) {
+      return [FoulType.NoBallHit]; // No valid collision occurred
+    }
+    return this.isValidFirstTouch(player, collidedBallColor, somePocketed) ? [] : [FoulType.WrongBallFirst];
+  }
+
+  /**
+   * Gets the fouls of the pocketed balls, based on the player's color and match score: pocketing the
+   * cue ball, pocketing the black before the player's group is cleared, and pocketing balls of the
+   * opponent's group, or of both groups while the table is open in casual play.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {Ball[]} pocketedBalls - An array of balls that were pocketed during the turn.
+   * @returns {FoulType[]} The fouls of the pocketed balls, if any.
+   */
+  private getPocketedBallsFouls(player: Player, pocketedBalls: Ball[]): FoulType[] {
+    const fouls: FoulType[] = [];
+    const isOnBlack: boolean = !!player.color && player.matchScore === 8; // The player's group was cleared and the black went down
+    const groupBalls: Ball[] = pocketedBalls.filter((ball: Ball) => ball.color !== Color.white && ball.color !== Color.black);
+    const group: Color = player.color || (groupBalls.length > 0 ? groupBalls[0].color : null);
+    const mixedPotAllowed: boolean = !player.color && groupRulesConfig.assignment === GroupAssignment.OpenTable;
+
+    if (pocketedBalls.some((ball: Ball) => ball.color === Color.white)) {
+      fouls.push(FoulType.Scratch);
+    }
+    if (pocketedBalls.some((ball: Ball) => ball.color === Color.black) && (!isOnBlack || groupBalls.length > 0)) {
+      fouls.push(FoulType.EightBallEarly);
+    }
+    if (groupBalls.some((ball: Ball) => ball.color !== group) && !mixedPotAllowed) {
+      fouls.push(FoulType.WrongGroupPocketed);
+    }
+
+    return fouls;
+  }
+
+  //------Protected Methods------//
+
+  /**
+   * Gets the fouls of the rules requiring balls to reach the cushions, which games extending
+   * this class may play.
+   *
+   * @param {State} state - The state of the turn, including the pocketed balls and the cushion contacts.
+   * @returns {FoulType[]} No fouls, as the cushions are not checked by default.
+   */
+  protected getCushionFouls(state: State): FoulType[] {
+    return [];
+  }
+
+  /**
+   * Gets the fouls of the called shots, which games extending this class may play.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The state of the turn, including the call and the pocketed balls.
+   * @returns {FoulType[]} No fouls, as shots are not called by default.
+   */
+  protected getCallFouls(player: Player, state: State): FoulType[] {
+    return [];
+  }
+
+  /**
+   * Determines if the opponent of a player who fouled takes the table as it lies: after an illegal break
+   * with no other foul, which they may play on from where the balls and the cue ball stopped.
+   *
+   * @param {State} state - The judged state of the turn on which the foul was committed.
+   * @returns {boolean} True if the cue ball is played from where it lies, false otherwise.
+   */
+  protected isTakenAsItLies(state: State): boolean {
+    return state.isBreak && state.verdict.fouls.length > 0 &&
+      state.verdict.fouls.every((foul: FoulType) => foul === FoulType.IllegalBreak);
+  }
+
+  //------Public Methods------//
+
+  /**
+   * Creates the object balls of a new rack, in their starting positions.
+   *
+   * @returns {Ball[]} The racked object balls.
+   */
+  public abstract rackBalls(): Ball[];
+
+  /**
+   * Judges the player's turn by checking both the first touch and the pocketed balls.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The current state of the game, including the first collided ball and pocketed balls.
+   * @param {Ball[]} balls - The balls left on the table once the pocketed object balls are taken off.
+   * @returns {IVerdict} The verdict listing the fouls of the turn.
+   */
+  public judgeTurn(player: Player, state: State, balls: Ball[]): IVerdict {
+    return {
+      fouls: [
+        ...this.getFirstTouchFouls(player, state.firstCollidedBallColor, state.pocketedBalls.length > 0),
+        ...this.getPocketedBallsFouls(player, state.pocketedBalls),
+        ...this.getCushionFouls(state),
+        ...this.getCallFouls(player, state),
+      ]
+    };
+  }
+
+  /**
+   * Gets the object balls the player may hit first with their next shot: any group ball while the table
+   * is open, the balls of their group, and the black once their group is cleared.
+   *
+   * @param {Player} player - The player about to take their turn.
+   * @param {Ball[]} balls - The balls on the table.
+   * @returns {Ball[]} The balls the player is on.
+   */
+  public getBallsOn(player: Player, balls: Ball[]): Ball[] {
+    return balls.filter((ball: Ball) => ball.color !== Color.white && this.isValidFirstTouch(player, ball.color, false));
+  }
+
+  /**
+   * Determines if the player has to call their shot.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The state of the turn.
+   * @returns {boolean} False, as shots are not called by default.
+   */
+  public isCallRequired(player: Player, state: State): boolean {
+    return false;
+  }
+
+  /**
+   * Assigns groups once the turn is judged. While the table is open, the group the pocketed balls
+   * decide goes to the current player and the other group to their opponent.
+   *
+   * @param {State} state - The judged state of the turn, including the pocketed balls and the call.
+   * @param {Player} currentPlayer - The player currently taking their turn.
+   * @param {Player} nextPlayer - The opponent of the current player.
+   */
+  public assignGroups(state: State, currentPlayer: Player, nextPlayer: Player): void {
+    const group: Color = this.getPocketedGroup(state);
+
+    if (!currentPlayer.color && group) {
+      currentPlayer.color = group;
+      nextPlayer.color = this.getOpposingColor(group);
+    }
+  }
+
+  /**
+   * Updates a player's match score from the balls left on the table: the number of balls of their
+   * group pocketed, plus one once the black ball is pocketed too.
+   *
+   * @param {Player} player - The player whose score is updated.
+   * @param {Ball[]} balls - The balls left on the table.
+   */
+  public updateMatchScore(player: Player, balls: Ball[]): void {
+    if (player.color) {
+      player.matchScore = 8 - balls.filter((ball: Ball) => ball.color === player.color || ball.color === Color.black).length;
+    }
+  }
+
+  /**
+   * Gets the points the player scores on the turn.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The judged state of the turn.
+   * @returns {number} Zero, as the groups are pocketed for the match score rather than points.
+   */
+  public getTurnPoints(player: Player, state: State): number {
+    return 0;
+  }
+
+  /**
+   * Gets the points the opponent of the player scores on the turn.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The judged state of the turn.
+   * @returns {number} Zero, as fouls cost the rack or hand over the table rather than points.
+   */
+  public getOpponentPoints(player: Player, state: State): number {
+    return 0;
+  }
+
+  /**
+   * Gets the points still to be scored from the balls left on the table.
+   *
+   * @param {Ball[]} balls - The balls left on the table.
+   * @returns {number} Zero, as the game is not scored in points.
+   */
+  public getPointsRemaining(balls: Ball[]): number {
+    return 0;
+  }
+
+  /**
+   * Determines if the current player keeps shooting: they do after a valid turn that pocketed a ball,
+   * or the called ball in the called pocket if the shot was called.
+   *
+   * @param {State} state - The state of the turn that ended.
+   * @returns {boolean} True if the same player shoots again, false if the opponent takes over.
+   */
+  public keepsTurn(state: State): boolean {
+    return state.isValid && (state.calledBall ? isCallMade(state) : state.pocketedBalls.length > 0);
+  }
+
+  /**
+   * Gets where the opponent of a player who fouled may place the cue ball in hand: in the kitchen
+   * after a foul on the break, and anywhere on the table after any other foul. After an illegal break
+   * alone the table is taken as it lies, with no cue ball in hand.
+   *
+   * @param {State} state - The judged state of the turn on which the foul was committed.
+   * @returns {BallInHandZone} The zone the cue ball may be placed in, or none if it is played from where it lies.
+   */
+  public getBallInHandZone(state: State): BallInHandZone {
+    if (this.isTakenAsItLies(state)) {
+      return BallInHandZone.None;
+    }
+    return state.isBreak ? BallInHandZone.Kitchen : BallInHandZone.Table;
+  }
+
+  /**
+   * Gets the pocketed balls that have to be put back on the table at the end of the turn.
+   *
+   * @param {State} state - The state of the turn that ended.
+   * @returns {Ball[]} The balls to spot, none in games where every pocketed ball stays down.
+   */
+  public getBallsToSpot(state: State): Ball[] {
+    return [];
+  }
+
+  /**
+   * Gets the spots a pocketed ball may be put back on.
+   *
+   * @param {Ball} ball - The ball to spot.
+   * @returns {IVector2[]} The foot spot.
+   */
+  public getSpotPositions(ball: Ball): IVector2[] {
+    return [GameConfig.footSpotPosition];
+  }
+
+  /**
+   * Gets the balls to put back in the rack once the turn has ended.
+   *
+   * @param {Ball[]} balls - The balls left on the table.
+   * @returns {Ball[]} No balls, as the game ends before the table is cleared.
+   */
+  public rerackBalls(balls: Ball[]): Ball[] {
+    return [];
+  }
+
+  /**
+   * Determines if the game is over by checking the balls pocketed on the turn.
+   * The game is considered over if the eight ball is pocketed or if the cue ball is pocketed
+   * while the player is on their last ball or on the eight ball.
+   *
+   * @param {Player} currentPlayer - The player currently taking their turn.
+   * @param {State} state - The state of the turn, including the pocketed balls.
+   * @returns {boolean} True if the game is over, false otherwise.
+   */
+  public isGameOver(currentPlayer: Player, state: State): boolean {
+    const isPocketed = (color: Color): boolean => state.pocketedBalls.some((ball: Ball) => ball.color === color);
+
+    return isPocketed(Color.black) || // Game over if the eight ball is pocketed
+      (isPocketed(Color.white) && currentPlayer.matchScore === 7) || // Game over if cue ball is pocketed and player is on the last normal ball
+      (isPocketed(Color.white) && currentPlayer.matchScore === 8); // Game over if cue ball is pocketed and player is on the eight ball
+  }
+
+  /**
+   * Gets the winner of a game that is over: the current player if they ended it legally,
+   * and their opponent if they fouled.
+   *
+   * @param {Player} currentPlayer - The player who took the last turn.
+   * @param {Player} nextPlayer - The opponent of the current player.
+   * @param {State} state - The judged state of the last turn.
+   * @returns {Player} The player who won the game.
+   */
+  public getWinner(currentPlayer: Player, nextPlayer: Player, state: State): Player {
+    return state.isValid ? currentPlayer : nextPlayer;
+  }
+
+  /**
+   * Takes a snapshot of the state the rules keep from turn to turn, which is none for these rules.
+   *
+   * @returns {IRuleSetSnapshot} An empty snapshot.
+   */
+  public snapshot(): IRuleSetSnapshot {
+    return {};
+  }
+
+  /**
+   * Restores the state the rules keep from turn to turn, which is none for these rules.
+   *
+   * @param {IRuleSetSnapshot} snapshot - The snapshot taken of the rules.
+   */
+  public restore(snapshot: IRuleSetSnapshot): void { }
+}
@@ -0,0 +1,342 @@
+import { IRotationRulesConfig, ITableConfig, IVector2 } from '../game.config.type';
+import { GameConfig } from '../game.config';
+import { Color } from '../common/color';
+import { Random } from '../common/random';
+import { Vector2 } from '../physics/vector2';
+import { State } from '../game-objects/state';
+import { Ball } from '../game-objects/ball';
+import { Player } from '../game-objects/player';
+import { GameMode } from '../game-objects/game-mode';
+import { IRuleSet } from './rule-set';
+import { IRuleSetSnapshot } from './rule-set-snapshot';
+import { IVerdict } from './verdict';
+import { FoulType } from './foul-type';
+import { getCushionFouls } from './cushion-fouls';
+import { BallInHandZone } from './ball-in-hand-zone';
+
+//------Configurations------//
+
+// Load configurations from the game configuration
+const rotationRulesConfig: IRotationRulesConfig = GameConfig.rotationRules;
+
+/**
+ * NineBallRuleSet
+ *
+ * This class defines the rules of 9-ball. The players share the balls numbered 1 to 9: the cue ball
+ * must first hit the lowest-numbered ball on the table, and any ball pocketed on a legal shot lets the
+ * player continue. Pocketing the 9 on a legal shot wins the game, while a 9 pocketed on a foul or a push-out
+ * is spotted again.
+ */
+export class NineBallRuleSet implements IRuleSet {
+
+  //------Properties------//
+
+  /**
+   * Gets the game mode these rules are for.
+   *
+   * @returns {GameMode} 9-ball.
+   */
+  public get gameMode(): GameMode {
+    return GameMode.NineBall;
+  }
+
+  /**
+   * Gets whether the shot right after the break may be declared a push-out.
+   *
+   * @returns {boolean} True if push-outs are played.
+   */
+  public get pushOutAfterBreak(): boolean {
+    return rotationRulesConfig.pushOutAfterBreak;
+  }
+
+  /**
+   * Gets the number of fouls in a row that makes a player lose the rack.
+   *
+   * @returns {number} The configured number of fouls, or zero if they are not counted.
+   */
+  public get consecutiveFoulsToLose(): number {
+    return rotationRulesConfig.consecutiveFoulsToLose;
+  }
+
+  /**
+   * Gets whether the opponent of an illegal break may choose to re-rack and break.
+   *
+   * @returns {boolean} False, as an illegal break is a plain foul in 9-ball.
+   */
+  public get illegalBreakOption(): boolean {
+    return false;
+  }
+
+  /**
+   * Gets the number of visits at the table the opponent of a player who fouled gets.
+   *
+   * @returns {number} One, as a foul hands over the table with the cue ball in hand.
+   */
+  public get visitsAfterFoul(): number {
+    return 1;
+  }
+
+  /**
+   * Gets where the cue ball starts the game, and is put back once it has been pocketed.
+   *
+   * @returns {IVector2} The head spot, behind the head string.
+   */
+  public get cueBallPosition(): IVector2 {
+    return GameConfig.cueBallPosition;
+  }
+
+  /**
+   * Gets the table the game is played on.
+   *
+   * @returns {ITableConfig} The pool table.
+   */
+  public get table(): ITableConfig {
+    return GameConfig.table;
+  }
+
+  //------Private Methods------//
+
+  /**
+   * Checks if the given balls include the 9.
+   *
+   * @param {Ball[]} balls - The balls to check.
+   * @returns {boolean} True if the 9 is among the balls, false otherwise.
+   */
+  private includesNineBall(balls: Ball[]): boolean {
+    return balls.some((ball: Ball) => ball.number === 9);
+  }
+
+  /**
+   * Gets the lowest number among the object balls that were on the table when the shot was taken.
+   *
+   * @param {State} state - The state of the turn, including the pocketed balls.
+   * @param {Ball[]} balls - The balls left on the table once the pocketed object balls are taken off.
+   * @returns {number} The number of the ball the cue ball had to hit first.
+   */
+  private getLowestNumber(state: State, balls: Ball[]): number {
+    const numbers: number[] = [...balls, ...state.pocketedBalls]
+      .filter((ball: Ball) => ball.number > 0)
+      .map((ball: Ball) => ball.number);
+
+    return Math.min(...numbers);
+  }
+
+  //------Public Methods------//
+
+  /**
+   * Creates the object balls of a 9-ball rack. The 1 sits at the apex of the diamond, the 9 in its
+   * centre, and the other balls fill the remaining spots at random.
+   *
+   * @returns {Ball[]} The racked object balls.
+   */
+  public rackBalls(): Ball[] {
+    const spots: IVector2[] = GameConfig.diamondRackPositions;
+    const others: number[] = Random.shuffle([2, 3, 4, 5, 6, 7, 8]);
+
+    // The spots row by row from the apex: the 1st is the apex and the 5th is the centre
+    const numbers: number[] = [
+      1,
+      others[0], others[1],
+      others[2], 9, others[3],
+      others[4], others[5],
+      others[6],
+    ];
+
+    return numbers.map((number: number, i: number) => Ball.numbered(Vector2.copy(spots[i]), number));
+  }
+
+  /**
+   * Judges the player's turn: the cue ball must first hit the lowest-numbered ball and a ball
+   * must then reach a cushion, unless the shot is a push-out, and the cue ball must not be pocketed.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The current state of the game, including the first collided ball and pocketed balls.
+   * @param {Ball[]} balls - The balls left on the table once the pocketed object balls are taken off.
+   * @returns {IVerdict} The verdict listing the fouls of the turn.
+   */
+  public judgeTurn(player: Player, state: State, balls: Ball[]): IVerdict {
+    const fouls: FoulType[] = [];
+
+    if (!state.pushOut && !state.firstCollidedBall) {
+      fouls.push(FoulType.NoBallHit);
+    }
+    else if (!state.pushOut && state.firstCollidedBall.number !== this.getLowestNumber(state, balls)) {
+      fouls.push(FoulType.WrongBallFirst);
+    }
+    if (state.pocketedBalls.some((ball: Ball) => ball.color === Color.white)) {
+      fouls.push(FoulType.Scratch);
+    }
+    if (!state.pushOut) {
+      fouls.push(...getCushionFouls(state));
+    }
+
+    return { fouls };
+  }
+
+  /**
+   * Gets the object balls the player may hit first with their next shot, which is the lowest-numbered ball.
+   *
+   * @param {Player} player - The player about to take their turn.
+   * @param {Ball[]} balls - The balls on the table.
+   * @returns {Ball[]} The lowest-numbered ball.
+   */
+  public getBallsOn(player: Player, balls: Ball[]): Ball[] {
+    const numbers: number[] = balls.filter((ball: Ball) => ball.number > 0).map((ball: Ball) => ball.number);
+
+    return balls.filter((ball: Ball) => ball.number > 0 && ball.number === Math.min(...numbers));
+  }
+
+  /**
+   * Determines if the player has to call their shot, which they never do in 9-ball.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The state of the turn.
+   * @returns {boolean} False, as any ball pocketed on a legal shot counts.
+   */
+  public isCallRequired(player: Player, state: State): boolean {
+    return false;
+  }
+
+  /**
+   * Assigns no groups, as the balls are shared in 9-ball.
+   *
+   * @param {State} state - The judged state of the turn.
+   * @param {Player} currentPlayer - The player currently taking their turn.
+   * @param {Player} nextPlayer - The opponent of the current player.
+   */
+  public assignGroups(state: State, currentPlayer: Player, nextPlayer: Player): void { }
+
+  /**
+   * Keeps the match score at zero, as the balls pocketed before the 9 do not count in 9-ball.
+   *
+   * @param {Player} player - The player whose score is updated.
+   * @param {Ball[]} balls - The balls left on the table.
+   */
+  public updateMatchScore(player: Player, balls: Ball[]): void {
+    player.matchScore = 0;
+  }
+
+  /**
+   * Gets the points the player scores on the turn.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The judged state of the turn.
+   * @returns {number} Zero, as only the 9 wins the game rather than points.
+   */
+  public getTurnPoints(player: Player, state: State): number {
+    return 0;
+  }
+
+  /**
+   * Gets the points the opponent of the player scores on the turn.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The judged state of the turn.
+   * @returns {number} Zero, as fouls cost the rack or hand over the table rather than points.
+   */
+  public getOpponentPoints(player: Player, state: State): number {
+    return 0;
+  }
+
+  /**
+   * Gets the points still to be scored from the balls left on the table.
+   *
+   * @param {Ball[]} balls - The balls left on the table.
+   * @returns {number} Zero, as the game is not scored in points.
+   */
+  public getPointsRemaining(balls: Ball[]): number {
+    return 0;
+  }
+
+  /**
+   * Determines if the current player keeps shooting: they do after a valid turn that pocketed a ball,
+   * unless the turn was a push-out, which always hands the decision to the opponent.
+   *
+   * @param {State} state - The state of the turn that ended.
+   * @returns {boolean} True if the same player shoots again, false if the opponent takes over.
+   */
+  public keepsTurn(state: State): boolean {
+    return state.isValid && !state.pushOut && state.pocketedBalls.length > 0;
+  }
+
+  /**
+   * Gets where the opponent of a player who fouled may place the cue ball in hand, which is
+   * anywhere on the table in 9-ball, even after a foul on the break.
+   *
+   * @param {State} state - The state of the turn on which the foul was committed.
+   * @returns {BallInHandZone} The whole table.
+   */
+  public getBallInHandZone(state: State): BallInHandZone {
+    return BallInHandZone.Table;
+  }
+
+  /**
+   * Gets the 9 back when it was pocketed on a foul or a push-out.
+   *
+   * @param {State} state - The state of the turn that ended.
+   * @returns {Ball[]} The 9 if it has to be spotted, or no balls.
+   */
+  public getBallsToSpot(state: State): Ball[] {
+    return state.isValid && !state.pushOut ? [] : state.pocketedBalls.filter((ball: Ball) => ball.number === 9);
+  }
+
+  /**
+   * Gets the spots a pocketed ball may be put back on.
+   *
+   * @param {Ball} ball - The ball to spot.
+   * @returns {IVector2[]} The foot spot.
+   */
+  public getSpotPositions(ball: Ball): IVector2[] {
+    return [GameConfig.footSpotPosition];
+  }
+
+  /**
+   * Gets the balls to put back in the rack once the turn has ended.
+   *
+   * @param {Ball[]} balls - The balls left on the table.
+   * @returns {Ball[]} No balls, as the game ends before the table is cleared.
+   */
+  public rerackBalls(balls: Ball[]): Ball[] {
+    return [];
+  }
+
+  /**
+   * Determines if the game is over, which happens when the 9 is pocketed on a legal shot other than a push-out.
+   *
+   * @param {Player} currentPlayer - The player currently taking their turn.
+   * @param {State} state - The state of the turn, including the pocketed balls.
+   * @returns {boolean} True if the game is over, false otherwise.
+   */
+  public isGameOver(currentPlayer: Player, state: State): boolean {
+    return state.isValid && !state.pushOut && this.includesNineBall(state.pocketedBalls);
+  }
+
+  /**
+   * Gets the winner of a game that is over: the current player if they ended it legally,
+   * and their opponent if they lost it on fouls.
+   *
+   * @param {Player} currentPlayer - The player who took the last turn.
+   * @param {Player} nextPlayer - The opponent of the current player.
+   * @param {State} state - The judged state of the last turn.
+   * @returns {Player} The player who won the game.
+   */
+  public getWinner(currentPlayer: Player, nextPlayer: Player, state: State): Player {
+    return state.isValid ? currentPlayer : nextPlayer;
+  }
+
+  /**
+   * Takes a snapshot of the state the rules keep from turn to turn, which is none for these rules.
+   *
+   * @returns {IRuleSetSnapshot} An empty snapshot.
+   */
+  public snapshot(): IRuleSetSnapshot {
+    return {};
+  }
+
+  /**
+   * Restores the state the rules keep from turn to turn, which is none for these rules.
+   *
+   * @param {IRuleSetSnapshot} snapshot - The snapshot taken of the rules.
+   */
+  public restore(snapshot: IRuleSetSnapshot): void { }
+}
@@ -0,0 +1,32 @@
+import { GameMode } from '../game-objects/game-mode';
+import { IRuleSet } from './rule-set';
+import { BlackballRuleSet } from './blackball-rule-set';
+import { EightBallRuleSet } from './eight-ball-rule-set';
+import { NineBallRuleSet } from './nine-ball-rule-set';
+import { StraightPoolRuleSet } from './straight-pool-rule-set';
+import { SnookerRuleSet } from './snooker-rule-set';
+
+/**
+ * Creates the rule set of a game mode, for a new game world to be played under.
+ *
+ * @param {GameMode} gameMode - The game mode to play.
+ * @returns {IRuleSet} The rules of the game mode.
+ */
+export const createRuleSet = (gameMode: GameMode): IRuleSet => {
+  switch (gameMode) {
+    case GameMode.EightBall:
+      return new EightBallRuleSet();
+
+    case GameMode.NineBall:
+      return new NineBallRuleSet();
+
+    case GameMode.StraightPool:
+      return new StraightPoolRuleSet();
+
+    case GameMode.Snooker:
+      return new SnookerRuleSet();
+
+    default:
+      return new BlackballRuleSet();
+  }
+};
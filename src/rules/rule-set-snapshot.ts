@@ -0,0 +1,9 @@
+/**
+ * IRuleSetSnapshot
+ *
+ * This interface describes the state a rule set keeps from turn to turn, such as the ball a snooker player
+ * is on, as plain data. Rule sets that keep no state between turns take an empty snapshot.
+ */
+export interface IRuleSetSnapshot {
+  [key: string]: boolean | number; // The value of each piece of state, by name
+}
@@ -0,0 +1,205 @@
+import { ITableConfig, IVector2 } from '../game.config.type';
+import { Ball } from '../game-objects/ball';
+import { Player } from '../game-objects/player';
+import { State } from '../game-objects/state';
+import { GameMode } from '../game-objects/game-mode';
+import { IVerdict } from './verdict';
+import { BallInHandZone } from './ball-in-hand-zone';
+import { IRuleSetSnapshot } from './rule-set-snapshot';
+
+/**
+ * IRuleSet
+ *
+ * This interface defines the rules of a pool game. The `GameWorld` only simulates the table and
+ * asks its rule set how to rack the balls, whether a shot was legal, which groups the players take,
+ * who shoots next, which balls are spotted again and when the game is won. A new game mode is added
+ * by writing a class that implements this interface.
+ */
+export interface IRuleSet {
+  /**
+   * The game mode these rules are for.
+   */
+  readonly gameMode: GameMode;
+
+  /**
+   * Whether the shot right after the break may be declared a push-out.
+   */
+  readonly pushOutAfterBreak: boolean;
+
+  /**
+   * The number of fouls in a row that makes a player lose the rack, or 0 if fouls in a row are not counted.
+   */
+  readonly consecutiveFoulsToLose: number;
+
+  /**
+   * Whether the opponent of a player who broke illegally may choose to re-rack and break instead of playing on.
+   */
+  readonly illegalBreakOption: boolean;
+
+  /**
+   * The number of visits at the table the opponent of a player who fouled gets, 1 when a foul only hands over the table.
+   */
+  readonly visitsAfterFoul: number;
+
+  /**
+   * Where the cue ball starts the game, and is put back once it has been pocketed.
+   */
+  readonly cueBallPosition: IVector2;
+
+  /**
+   * The table the game is played on, with its size, cushions and pockets.
+   */
+  readonly table: ITableConfig;
+
+  /**
+   * Creates the object balls of a new rack, in their starting positions.
+   *
+   * @returns {Ball[]} The racked object balls.
+   */
+  rackBalls(): Ball[];
+
+  /**
+   * Judges the player's turn, calling every foul they committed.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The state of the turn, including the first collided ball and pocketed balls.
+   * @param {Ball[]} balls - The balls left on the table once the pocketed object balls are taken off.
+   * @returns {IVerdict} The verdict listing the fouls of the turn, none if the turn was legal.
+   */
+  judgeTurn(player: Player, state: State, balls: Ball[]): IVerdict;
+
+  /**
+   * Gets the object balls the player may hit first with their next shot.
+   *
+   * @param {Player} player - The player about to take their turn.
+   * @param {Ball[]} balls - The balls on the table.
+   * @returns {Ball[]} The balls the player is on.
+   */
+  getBallsOn(player: Player, balls: Ball[]): Ball[];
+
+  /**
+   * Determines if the player has to call the ball and the pocket of their shot before taking it.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The state of the turn.
+   * @returns {boolean} True if the shot has to be called, false otherwise.
+   */
+  isCallRequired(player: Player, state: State): boolean;
+
+  /**
+   * Assigns groups to the players once the turn is judged, if the balls pocketed on the turn decide them.
+   *
+   * @param {State} state - The judged state of the turn, including the pocketed balls and the call.
+   * @param {Player} currentPlayer - The player currently taking their turn.
+   * @param {Player} nextPlayer - The opponent of the current player.
+   */
+  assignGroups(state: State, currentPlayer: Player, nextPlayer: Player): void;
+
+  /**
+   * Updates a player's match score from the balls left on the table.
+   *
+   * @param {Player} player - The player whose score is updated.
+   * @param {Ball[]} balls - The balls left on the table.
+   */
+  updateMatchScore(player: Player, balls: Ball[]): void;
+
+  /**
+   * Gets the points the player scores on the turn, in games scored by points.
+   *
+   * @param {Player} player - The player currently taking their turn, with the fouls in a row before it.
+   * @param {State} state - The judged state of the turn.
+   * @returns {number} The points scored, negative for a penalty.
+   */
+  getTurnPoints(player: Player, state: State): number;
+
+  /**
+   * Gets the points the opponent of the player scores on the turn, from the player's fouls, in games scored by points.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The judged state of the turn.
+   * @returns {number} The points the opponent scores.
+   */
+  getOpponentPoints(player: Player, state: State): number;
+
+  /**
+   * Gets the points still to be scored from the balls left on the table, in games scored by points.
+   *
+   * @param {Ball[]} balls - The balls left on the table.
+   * @returns {number} The points remaining.
+   */
+  getPointsRemaining(balls: Ball[]): number;
+
+  /**
+   * Determines if the current player keeps shooting once their turn has ended.
+   *
+   * @param {State} state - The state of the turn that ended.
+   * @returns {boolean} True if the same player shoots again, false if the opponent takes over.
+   */
+  keepsTurn(state: State): boolean;
+
+  /**
+   * Gets where the opponent of a player who fouled may place the cue ball in hand.
+   *
+   * @param {State} state - The state of the turn on which the foul was committed.
+   * @returns {BallInHandZone} The zone the cue ball may be placed in, or none if it is played from where it lies.
+   */
+  getBallInHandZone(state: State): BallInHandZone;
+
+  /**
+   * Gets the pocketed balls that have to be put back on the table at the end of the turn.
+   *
+   * @param {State} state - The state of the turn that ended.
+   * @returns {Ball[]} The balls to spot.
+   */
+  getBallsToSpot(state: State): Ball[];
+
+  /**
+   * Gets the spots a pocketed ball may be put back on, in order: the ball goes on the first one that is free.
+   * If none is, it is placed as close to the first one as possible.
+   *
+   * @param {Ball} ball - The ball to spot.
+   * @returns {IVector2[]} The positions of the spots, the ball's own spot first.
+   */
+  getSpotPositions(ball: Ball): IVector2[];
+
+  /**
+   * Gets the balls to put back in the rack once the turn has ended, in games racked again during play.
+   *
+   * @param {Ball[]} balls - The balls left on the table.
+   * @returns {Ball[]} The re-racked balls in their positions, or none if no re-rack is due.
+   */
+  rerackBalls(balls: Ball[]): Ball[];
+
+  /**
+   * Determines if the game is over after the turn.
+   *
+   * @param {Player} currentPlayer - The player currently taking their turn.
+   * @param {State} state - The state of the turn, including the pocketed balls.
+   * @returns {boolean} True if the game is over, false otherwise.
+   */
+  isGameOver(currentPlayer: Player, state: State): boolean;
+
+  /**
+   * Gets the winner of a game that is over.
+   *
+   * @param {Player} currentPlayer - The player who took the last turn, with its points counted.
+   * @param {Player} nextPlayer - The opponent of the current player.
+   * @param {State} state - The judged state of the last turn.
+   * @returns {Player} The player who won the game.
+   */
+  getWinner(currentPlayer: Player, nextPlayer: Player, state: State): Player;
+
+  /**
+   * Takes a snapshot of the state the rules keep from turn to turn.
+   *
+   * @returns {IRuleSetSnapshot} The state of the rules, as plain data.
+   */
+  snapshot(): IRuleSetSnapshot;
+
+  /**
+   * Restores the state the rules keep from turn to turn from a snapshot.
+   *
+   * @param {IRuleSetSnapshot} snapshot - The snapshot taken of rules of the same game mode.
+   */
+  restore(snapshot: IRuleSetSnapshot): void;
+}
@@ -0,0 +1,522 @@
+import { ISnookerRulesConfig, ISnookerSpotsConfig, ITableConfig, IVector2 } from '../game.config.type';
+import { GameConfig } from '../game.config';
+import { Color } from '../common/color';
+import { Vector2 } from '../physics/vector2';
+import { State } from '../game-objects/state';
+import { Ball } from '../game-objects/ball';
+import { Player } from '../game-objects/player';
+import { GameMode } from '../game-objects/game-mode';
+import { IRuleSet } from './rule-set';
+import { IRuleSetSnapshot } from './rule-set-snapshot';
+import { IVerdict } from './verdict';
+import { FoulType } from './foul-type';
+import { BallInHandZone } from './ball-in-hand-zone';
+import { isSnookered } from './snookered';
+
+//------Configurations------//
+
+// Load configurations from the game configuration
+const snookerRulesConfig: ISnookerRulesConfig = GameConfig.snookerRules;
+const snookerSpots: ISnookerSpotsConfig = GameConfig.snookerSpots;
+
+/**
+ * What the judge of a snooker turn decides besides its fouls, worked out from the ball on at the time.
+ */
+interface ISnookerRuling {
+  points: number;      // Points the player scores with the balls they potted
+  penalty: number;     // Points the opponent scores for the player's fouls
+  ballsToSpot: Ball[]; // Colours potted on the turn that go back on their spots
+  colourOn: boolean;   // Whether the player potted a red and goes on to a colour
+  freeBall: boolean;   // Whether the player fouled and left their opponent snookered
+  frameOver: boolean;  // Whether the last ball, the black, was potted
+}
+
+/**
+ * SnookerRuleSet
+ *
+ * This class defines the rules of snooker. While reds remain, the player has to pot a red and then any colour,
+ * which is spotted again, then a red again. Once the reds are gone the colours are potted in order, from the
+ * yellow to the black, and the frame goes to the player with more points. A foul gives the opponent the value
+ * of the ball on or of the highest ball involved, at least four points, and a free ball when it leaves them
+ * snookered. The ball on changes during a visit, so this rule set keeps track of it from turn to turn.
+ */
+export class SnookerRuleSet implements IRuleSet {
+
+  //------Members------//
+
+  private _colourOn: boolean = false;  // Whether the player at the table potted a red with their last shot
+  private _freeBall: boolean = false;  // Whether the player at the table may play any ball as the ball on
+  private _ruling: ISnookerRuling;     // The ruling on the last judged turn
+
+  //------Properties------//
+
+  /**
+   * Gets the game mode these rules are for.
+   *
+   * @returns {GameMode} Snooker.
+   */
+  public get gameMode(): GameMode {
+    return GameMode.Snooker;
+  }
+
+  /**
+   * Gets whether the shot right after the break may be declared a push-out.
+   *
+   * @returns {boolean} False, as push-outs only exist in rotation games.
+   */
+  public get pushOutAfterBreak(): boolean {
+    return false;
+  }
+
+  /**
+   * Gets the number of fouls in a row that makes a player lose the rack.
+   *
+   * @returns {number} Zero, as fouls give the opponent points rather than the frame.
+   */
+  public get consecutiveFoulsToLose(): number {
+    return 0;
+  }
+
+  /**
+   * Gets whether the opponent of an illegal break may choose to re-rack and break.
+   *
+   * @returns {boolean} False, as the break is judged like any other shot.
+   */
+  public get illegalBreakOption(): boolean {
+    return false;
+  }
+
+  /**
+   * Gets the number of visits at the table the opponent of a player who fouled gets.
+   *
+   * @returns {number} One, as a foul only hands over the table.
+   */
+  public get visitsAfterFoul(): number {
+    return 1;
+  }
+
+  /**
+   * Gets where the cue ball starts the frame, and is put back once it has been pocketed.
+   *
+   * @returns {IVector2} A position inside the D, behind the brown.
+   */
+  public get cueBallPosition(): IVector2 {
+    return GameConfig.snookerCueBallPosition;
+  }
+
+  /**
+   * Gets the table the frame is played on.
+   *
+   * @returns {ITableConfig} The snooker table, larger than the pool table.
+   */
+  public get table(): ITableConfig {
+    return GameConfig.snookerTable;
+  }
+
+  //------Private Methods------//
+
+  /**
+   * Gets the object balls among the given balls.
+   *
+   * @param {Ball[]} balls - The balls to filter.
+   * @returns {Ball[]} The balls other than the cue ball.
+   */
+  private getObjectBalls(balls: Ball[]): Ball[] {
+    return balls.filter((ball: Ball) => ball.color !== Color.white);
+  }
+
+  /**
+   * Checks whether a ball is a red.
+   *
+   * @param {Ball} ball - The ball to check.
+   * @returns {boolean} True if the ball is a red, false if it is a colour.
+   */
+  private isRed(ball: Ball): boolean {
+    return ball.color === Color.red;
+  }
+
+  /**
+   * Gets the value of a ball, from one for a red to seven for the black.
+   *
+   * @param {Ball} ball - The ball to value.
+   * @returns {number} The points the ball is worth.
+   */
+  private getValue(ball: Ball): number {
+    switch (ball.color) {
+      case Color.yellow:
+        return 2;
+
+      case Color.green:
+        return 3;
+
+      case Color.brown:
+        return 4;
+
+      case Color.blue:
+        return 5;
+
+      case Color.pink:
+        return 6;
+
+      case Color.black:
+        return 7;
+
+      default:
+        return 1;
+    }
+  }
+
+  /**
+   * Gets the balls on, the balls the player has to hit first: any colour after potting a red, the reds
+   * while any remain, and then the lowest valued colour left.
+   *
+   * @param {Ball[]} objectBalls - The object balls on the table at the start of the turn.
+   * @returns {Ball[]} The balls on.
+   */
+  private getBallsOnAmong(objectBalls: Ball[]): Ball[] {
+    const reds: Ball[] = objectBalls.filter((ball: Ball) => this.isRed(ball));
+
+    if (this._colourOn) {
+      return objectBalls.filter((ball: Ball) => !this.isRed(ball));
+    }
+    if (reds.length > 0) {
+      return reds;
+    }
+
+    const lowestValue: number = Math.min(...objectBalls.map((ball: Ball) => this.getValue(ball)));
+    return objectBalls.filter((ball: Ball) => this.getValue(ball) === lowestValue);
+  }
+
+  /**
+   * Checks whether a foul leaves the opponent snookered on the balls they will be on, the reds if any remain
+   * and otherwise the lowest valued colour, so that they get a free ball.
+   *
+   * @param {State} state - The state of the turn on which the foul was committed.
+   * @param {Ball[]} balls - The balls left on the table once the pocketed object balls are taken off.
+   * @returns {boolean} True if the opponent gets a free ball, false otherwise.
+   */
+  private isFreeBallAfterFoul(state: State, balls: Ball[]): boolean {
+    const cueBall: Ball = balls.find((ball: Ball) => ball.color === Color.white);
+
+    if (state.pocketedBalls.includes(cueBall)) {
+      return false;
+    }
+
+    const objectBalls: Ball[] = this.getObjectBalls(balls);
+    const reds: Ball[] = objectBalls.filter((ball: Ball) => this.isRed(ball));
+    const lowestValue: number = Math.min(...[...objectBalls, ...this.getObjectBalls(state.pocketedBalls)]
+      .filter((ball: Ball) => !this.isRed(ball))
+      .map((ball: Ball) => this.getValue(ball)));
+    const ballsOn: Ball[] = reds.length > 0 ? reds : objectBalls.filter((ball: Ball) => this.getValue(ball) === lowestValue);
+
+    return ballsOn.length > 0 && isSnookered(cueBall, ballsOn, balls);
+  }
+
+  /**
+   * Gets the own spot of a colour, where it starts the frame.
+   *
+   * @param {Ball} ball - The colour to spot.
+   * @returns {IVector2} The colour's own spot.
+   */
+  private getOwnSpot(ball: Ball): IVector2 {
+    switch (ball.color) {
+      case Color.yellow:
+        return snookerSpots.yellow;
+
+      case Color.green:
+        return snookerSpots.green;
+
+      case Color.brown:
+        return snookerSpots.brown;
+
+      case Color.blue:
+        return snookerSpots.blue;
+
+      case Color.pink:
+        return snookerSpots.pink;
+
+      default:
+        return snookerSpots.black;
+    }
+  }
+
+  //------Public Methods------//
+
+  /**
+   * Creates the object balls of a snooker frame: the fifteen reds in the triangle behind the pink,
+   * and the six colours on their spots.
+   *
+   * @returns {Ball[]} The racked object balls.
+   */
+  public rackBalls(): Ball[] {
+    this._colourOn = false;
+    this._freeBall = false;
+    this._ruling = { points: 0, penalty: 0, ballsToSpot: [], colourOn: false, freeBall: false, frameOver: false };
+
+    return [
+      ...GameConfig.snookerRedBallsPositions.map((position: IVector2) => new Ball(Vector2.copy(position), Color.red)),
+      new Ball(Vector2.copy(snookerSpots.yellow), Color.yellow),
+      new Ball(Vector2.copy(snookerSpots.green), Color.green),
+      new Ball(Vector2.copy(snookerSpots.brown), Color.brown),
+      new Ball(Vector2.copy(snookerSpots.blue), Color.blue),
+      new Ball(Vector2.copy(snookerSpots.pink), Color.pink),
+      new Ball(Vector2.copy(snookerSpots.black), Color.black),
+    ];
+  }
+
+  /**
+   * Judges the player's turn: the cue ball must first hit a ball on, no ball that is not on may be potted,
+   * and the cue ball must not be pocketed. With a free ball, the ball hit first counts as a ball on. After
+   * a red, the colour hit first is taken as the nominated colour, and it is the only colour that may be potted.
+   * The judge also works out the points of the turn and what the next turn is on, from the ball on now.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The current state of the game, including the first collided ball and pocketed balls.
+   * @param {Ball[]} balls - The balls left on the table once the pocketed object balls are taken off.
+   * @returns {IVerdict} The verdict listing the fouls of the turn.
+   */
+  public judgeTurn(player: Player, state: State, balls: Ball[]): IVerdict {
+    const objectBalls: Ball[] = this.getObjectBalls([...balls, ...state.pocketedBalls]);
+    const ballsOn: Ball[] = this.getBallsOnAmong(objectBalls);
+    const onReds: boolean = !this._colourOn && ballsOn.some((ball: Ball) => this.isRed(ball));
+    const first: Ball = state.firstCollidedBall;
+    const isOn = (ball: Ball): boolean => ballsOn.includes(ball) || (this._freeBall && ball === first);
+    const isPotLegal = (ball: Ball): boolean => onReds ?
+      this.isRed(ball) || (this._freeBall && ball === first) :
+      ball === first && isOn(ball);
+    const onValue: number = Math.min(...ballsOn.map((ball: Ball) => this.getValue(ball)));
+    const pocketed: Ball[] = this.getObjectBalls(state.pocketedBalls);
+    const notOn: Ball[] = pocketed.filter((ball: Ball) => !isPotLegal(ball));
+    const fouls: FoulType[] = [];
+    const foulValues: number[] = [snookerRulesConfig.minimumFoulPoints, ...notOn.map((ball: Ball) => this.getValue(ball))];
+
+    if (!first) {
+      fouls.push(FoulType.NoBallHit);
+    }
+    else if (!isOn(first)) {
+      fouls.push(FoulType.WrongBallFirst);
+      foulValues.push(this.getValue(first));
+    }
+    if (notOn.length > 0) {
+      fouls.push(FoulType.BallNotOnPocketed);
+    }
+    if (state.pocketedBalls.some((ball: Ball) => ball.color === Color.white)) {
+      fouls.push(FoulType.Scratch);
+    }
+
+    if (!this._colourOn) {
+      foulValues.push(onValue);
+    }
+    else if (first && isOn(first)) {
+      foulValues.push(this.getValue(first));
+    }
+
+    const isValid: boolean = fouls.length === 0;
+    const inSequence: boolean = !this._colourOn && !onReds;
+
+    this._ruling = {
+      points: isValid ? pocketed.reduce((points: number, ball: Ball) => points + (ballsOn.includes(ball) ? this.getValue(ball) : onValue), 0) : 0,
+      penalty: isValid ? 0 : Math.max(...foulValues),
+      ballsToSpot: pocketed.filter((ball: Ball) => !this.isRed(ball) && !(isValid && inSequence && ballsOn.includes(ball))),
+      colourOn: isValid && onReds && pocketed.length > 0,
+      freeBall: !isValid && this.isFreeBallAfterFoul(state, balls),
+      frameOver: objectBalls.length === 1 && pocketed.length === 1,
+    };
+
+    return { fouls };
+  }
+
+  /**
+   * Gets the object balls the player may hit first with their next shot: the balls on, or any ball with a free ball.
+   *
+   * @param {Player} player - The player about to take their turn.
+   * @param {Ball[]} balls - The balls on the table.
+   * @returns {Ball[]} The balls the player is on.
+   */
+  public getBallsOn(player: Player, balls: Ball[]): Ball[] {
+    const objectBalls: Ball[] = this.getObjectBalls(balls);
+
+    return this._freeBall ? objectBalls : this.getBallsOnAmong(objectBalls);
+  }
+
+  /**
+   * Determines if the player has to call their shot.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The state of the turn.
+   * @returns {boolean} False, as the colour hit first is taken as the nominated one.
+   */
+  public isCallRequired(player: Player, state: State): boolean {
+    return false;
+  }
+
+  /**
+   * Assigns no groups, as the balls are shared in snooker. The judged turn decides what the player
+   * at the table is on next instead: a colour after a red, and any ball after a foul that left them snookered.
+   *
+   * @param {State} state - The judged state of the turn.
+   * @param {Player} currentPlayer - The player currently taking their turn.
+   * @param {Player} nextPlayer - The opponent of the current player.
+   */
+  public assignGroups(state: State, currentPlayer: Player, nextPlayer: Player): void {
+    this._colourOn = this._ruling.colourOn;
+    this._freeBall = this._ruling.freeBall;
+  }
+
+  /**
+   * Keeps the match score at zero, as snooker is scored in points.
+   *
+   * @param {Player} player - The player whose score is updated.
+   * @param {Ball[]} balls - The balls left on the table.
+   */
+  public updateMatchScore(player: Player, balls: Ball[]): void {
+    player.matchScore = 0;
+  }
+
+  /**
+   * Gets the points the player scores on the turn: the value of each ball potted on a legal turn,
+   * with a free ball worth as much as the ball on.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The judged state of the turn.
+   * @returns {number} The points scored.
+   */
+  public getTurnPoints(player: Player, state: State): number {
+    return this._ruling.points;
+  }
+
+  /**
+   * Gets the points the opponent of the player scores on the turn: the value of the ball on or of the highest
+   * ball involved in the fouls, and at least the minimum foul points.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The judged state of the turn.
+   * @returns {number} The points the opponent scores, zero if the turn was legal.
+   */
+  public getOpponentPoints(player: Player, state: State): number {
+    return this._ruling.penalty;
+  }
+
+  /**
+   * Gets the points still to be scored from the balls left on the table: eight for each red with the black
+   * after it, the colours, and the black again if the player at the table has just potted a red.
+   *
+   * @param {Ball[]} balls - The balls left on the table.
+   * @returns {number} The points remaining.
+   */
+  public getPointsRemaining(balls: Ball[]): number {
+    const objectBalls: Ball[] = this.getObjectBalls(balls);
+    const reds: number = objectBalls.filter((ball: Ball) => this.isRed(ball)).length;
+    const colours: number = objectBalls
+      .filter((ball: Ball) => !this.isRed(ball))
+      .reduce((points: number, ball: Ball) => points + this.getValue(ball), 0);
+
+    return reds * 8 + colours + (this._colourOn ? 7 : 0);
+  }
+
+  /**
+   * Determines if the current player keeps shooting, which they do after a legal turn that potted a ball.
+   *
+   * @param {State} state - The state of the turn that ended.
+   * @returns {boolean} True if the same player shoots again, false if the opponent takes over.
+   */
+  public keepsTurn(state: State): boolean {
+    return state.isValid && this.getObjectBalls(state.pocketedBalls).length > 0;
+  }
+
+  /**
+   * Gets where the opponent of a player who fouled may place the cue ball in hand: inside the D
+   * if the cue ball was pocketed, and otherwise the cue ball is played from where it lies.
+   *
+   * @param {State} state - The state of the turn on which the foul was committed.
+   * @returns {BallInHandZone} The D, or none if the cue ball is played from where it lies.
+   */
+  public getBallInHandZone(state: State): BallInHandZone {
+    const scratched: boolean = state.pocketedBalls.some((ball: Ball) => ball.color === Color.white);
+
+    return scratched ? BallInHandZone.D : BallInHandZone.None;
+  }
+
+  /**
+   * Gets the colours potted on the turn that go back on their spots: every colour while reds remain
+   * or after a foul, but not a colour potted legally in order once the reds are gone.
+   *
+   * @param {State} state - The state of the turn that ended.
+   * @returns {Ball[]} The balls to spot.
+   */
+  public getBallsToSpot(state: State): Ball[] {
+    return this._ruling.ballsToSpot;
+  }
+
+  /**
+   * Gets the spots a potted colour may be put back on: its own spot, and then the spots of the other
+   * colours from the highest value down, as a colour whose spot is taken goes on the highest free one.
+   *
+   * @param {Ball} ball - The colour to spot.
+   * @returns {IVector2[]} The colour's own spot, then the other colours' spots by value.
+   */
+  public getSpotPositions(ball: Ball): IVector2[] {
+    const ownSpot: IVector2 = this.getOwnSpot(ball);
+    const spotsByValue: IVector2[] = [
+      snookerSpots.black, snookerSpots.pink, snookerSpots.blue, snookerSpots.brown, snookerSpots.green, snookerSpots.yellow,
+    ];
+
+    return [ownSpot, ...spotsByValue.filter((spot: IVector2) => spot !== ownSpot)];
+  }
+
+  /**
+   * Gets the balls to put back in the rack once the turn has ended.
+   *
+   * @param {Ball[]} balls - The balls left on the table.
+   * @returns {Ball[]} No balls, as the frame ends once the table is cleared.
+   */
+  public rerackBalls(balls: Ball[]): Ball[] {
+    return [];
+  }
+
+  /**
+   * Determines if the frame is over, which happens when the black is potted as the last ball on the table.
+   *
+   * @param {Player} currentPlayer - The player currently taking their turn.
+   * @param {State} state - The state of the turn.
+   * @returns {boolean} True if the game is over, false otherwise.
+   */
+  public isGameOver(currentPlayer: Player, state: State): boolean {
+    return this._ruling.frameOver;
+  }
+
+  /**
+   * Gets the winner of a frame that is over: the player with more points, or the current player on a tie
+   * if they potted the black legally.
+   *
+   * @param {Player} currentPlayer - The player who took the last turn, with its points counted.
+   * @param {Player} nextPlayer - The opponent of the current player, with the points of the last foul counted.
+   * @param {State} state - The judged state of the last turn.
+   * @returns {Player} The player who won the frame.
+   */
+  public getWinner(currentPlayer: Player, nextPlayer: Player, state: State): Player {
+    if (currentPlayer.points === nextPlayer.points) {
+      return state.isValid ? currentPlayer : nextPlayer;
+    }
+    return currentPlayer.points > nextPlayer.points ? currentPlayer : nextPlayer;
+  }
+
+  /**
+   * Takes a snapshot of the ball on, which the rules keep from turn to turn.
+   *
+   * @returns {IRuleSetSnapshot} Whether the player at the table is on a colour and whether they have a free ball.
+   */
+  public snapshot(): IRuleSetSnapshot {
+    return { colourOn: this._colourOn, freeBall: this._freeBall };
+  }
+
+  /**
+   * Restores the ball on from a snapshot.
+   *
+   * @param {IRuleSetSnapshot} snapshot - The snapshot taken of snooker rules.
+   */
+  public restore(snapshot: IRuleSetSnapshot): void {
+    this._colourOn = snapshot.colourOn === true;
+    this._freeBall = snapshot.freeBall === true;
+  }
+}
@@ -0,0 +1,58 @@
+import { IBallConfig } from '../game.config.type';
+import { GameConfig } from '../game.config';
+import { Vector2 } from '../physics/vector2';
+import { Ball } from '../game-objects/ball';
+
+//------Configurations------//
+
+// Load configurations from the game configuration
+const ballConfig: IBallConfig = GameConfig.ball;
+
+/**
+ * Checks whether a ball rolling in a straight line between two positions would touch any of the given balls.
+ *
+ * @param {Vector2} from - The position the rolling ball starts from.
+ * @param {Vector2} to - The position the rolling ball stops at.
+ * @param {Ball[]} obstacles - The balls that may be in the way.
+ * @returns {boolean} True if a ball is in the way, false if the path is clear.
+ */
+export const isPathBlocked = (from: Vector2, to: Vector2, obstacles: Ball[]): boolean => {
+  const path: Vector2 = to.subtract(from);
+  const length: number = path.length;
+
+  return obstacles.some((ball: Ball) => {
+    const along: number = Math.max(0, Math.min(length, ball.position.subtract(from).dot(path) / length));
+    const closest: Vector2 = from.add(path.mult(along / length));
+
+    return closest.distFrom(ball.position) < ballConfig.diameter;
+  });
+};
+
+/**
+ * Checks whether the cue ball can hit both extreme edges of a ball in a straight line, each by a path
+ * that grazes the ball without any other ball in the way.
+ *
+ * @param {Ball} cueBall - The cue ball.
+ * @param {Ball} target - The ball to hit.
+ * @param {Ball[]} balls - The balls on the table.
+ * @returns {boolean} True if both edges can be hit, false if either is obstructed.
+ */
+const canHitBothEdges = (cueBall: Ball, target: Ball, balls: Ball[]): boolean => {
+  const direction: Vector2 = target.position.subtract(cueBall.position);
+  const side: Vector2 = new Vector2(-direction.y, direction.x).multBy(ballConfig.diameter / direction.length);
+  const obstacles: Ball[] = balls.filter((ball: Ball) => ball !== cueBall && ball !== target && ball.onTable);
+
+  return [side, side.mult(-1)].every((offset: Vector2) => !isPathBlocked(cueBall.position, target.position.add(offset), obstacles));
+};
+
+/**
+ * Checks whether the cue ball is snookered: no ball on can be hit on both of its extreme edges
+ * in a straight line, because other balls are in the way.
+ *
+ * @param {Ball} cueBall - The cue ball, where it lies.
+ * @param {Ball[]} ballsOn - The balls the player has to hit first.
+ * @param {Ball[]} balls - The balls on the table.
+ * @returns {boolean} True if the cue ball is snookered, false otherwise.
+ */
+export const isSnookered = (cueBall: Ball, ballsOn: Ball[], balls: Ball[]): boolean =>
+  !ballsOn.some((ball: Ball) => canHitBothEdges(cueBall, ball, balls));
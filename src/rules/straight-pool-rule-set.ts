@@ -0,0 +1,366 @@
+import { IStraightPoolRulesConfig, ITableConfig, IVector2 } from '../game.config.type';
+import { GameConfig } from '../game.config';
+import { Color } from '../common/color';
+import { Random } from '../common/random';
+import { Vector2 } from '../physics/vector2';
+import { State } from '../game-objects/state';
+import { Ball } from '../game-objects/ball';
+import { Player } from '../game-objects/player';
+import { GameMode } from '../game-objects/game-mode';
+import { IRuleSet } from './rule-set';
+import { IRuleSetSnapshot } from './rule-set-snapshot';
+import { IVerdict } from './verdict';
+import { FoulType } from './foul-type';
+import { BallInHandZone } from './ball-in-hand-zone';
+import { getCushionFouls } from './cushion-fouls';
+import { isCallMade } from './called-shot';
+
+//------Configurations------//
+
+// Load configurations from the game configuration
+const straightPoolRulesConfig: IStraightPoolRulesConfig = GameConfig.straightPoolRules;
+
+/**
+ * StraightPoolRuleSet
+ *
+ * This class defines the rules of straight pool, or 14.1 continuous. Any ball may be hit first, but every
+ * shot after the break is called, and each ball pocketed on a legal shot that makes its call scores a point.
+ * Balls pocketed on other shots are spotted again. When one object ball is left, the other fourteen are
+ * re-racked and play goes on, until a player reaches the target score. Each foul costs a point, and
+ * three fouls in a row cost a further penalty.
+ */
+export class StraightPoolRuleSet implements IRuleSet {
+
+  //------Properties------//
+
+  /**
+   * Gets the game mode these rules are for.
+   *
+   * @returns {GameMode} Straight pool.
+   */
+  public get gameMode(): GameMode {
+    return GameMode.StraightPool;
+  }
+
+  /**
+   * Gets whether the shot right after the break may be declared a push-out.
+   *
+   * @returns {boolean} False, as push-outs only exist in rotation games.
+   */
+  public get pushOutAfterBreak(): boolean {
+    return false;
+  }
+
+  /**
+   * Gets the number of fouls in a row that makes a player lose the rack.
+   *
+   * @returns {number} Zero, as fouls in a row cost points rather than the rack.
+   */
+  public get consecutiveFoulsToLose(): number {
+    return 0;
+  }
+
+  /**
+   * Gets whether the opponent of an illegal break may choose to re-rack and break.
+   *
+   * @returns {boolean} False, as an illegal break is a plain foul.
+   */
+  public get illegalBreakOption(): boolean {
+    return false;
+  }
+
+  /**
+   * Gets the number of visits at the table the opponent of a player who fouled gets.
+   *
+   * @returns {number} One, as a foul only hands over the table.
+   */
+  public get visitsAfterFoul(): number {
+    return 1;
+  }
+
+  /**
+   * Gets where the cue ball starts the game, and is put back once it has been pocketed.
+   *
+   * @returns {IVector2} The head spot, behind the head string.
+   */
+  public get cueBallPosition(): IVector2 {
+    return GameConfig.cueBallPosition;
+  }
+
+  /**
+   * Gets the table the game is played on.
+   *
+   * @returns {ITableConfig} The pool table.
+   */
+  public get table(): ITableConfig {
+    return GameConfig.table;
+  }
+
+  //------Private Methods------//
+
+  /**
+   * Gets the object balls among the given balls.
+   *
+   * @param {Ball[]} balls - The balls to filter.
+   * @returns {Ball[]} The balls other than the cue ball.
+   */
+  private getObjectBalls(balls: Ball[]): Ball[] {
+    return balls.filter((ball: Ball) => ball.color !== Color.white);
+  }
+
+  /**
+   * Checks whether the balls pocketed on a turn score: they do on a legal break, and on any other
+   * legal shot that made its call.
+   *
+   * @param {State} state - The judged state of the turn.
+   * @returns {boolean} True if the pocketed object balls score, false if they are spotted again.
+   */
+  private isScoringShot(state: State): boolean {
+    return state.isValid && (state.isBreak || isCallMade(state));
+  }
+
+  /**
+   * Gets the fouls of the opening break, which must make its call if one was made, or otherwise
+   * drive enough object balls to the cushions, and the cue ball too.
+   *
+   * @param {State} state - The state of the break, including the call and the cushion contacts.
+   * @returns {FoulType[]} The fouls of the opening break, if any.
+   */
+  private getBreakFouls(state: State): FoulType[] {
+    const cushionBalls: Ball[] = this.getObjectBalls(state.cushionContacts)
+      .filter((ball: Ball, i: number, balls: Ball[]) => balls.indexOf(ball) === i);
+    const cueBallToCushion: boolean = state.cushionContacts.some((ball: Ball) => ball.color === Color.white);
+
+    if (isCallMade(state) || (cushionBalls.length >= straightPoolRulesConfig.breakCushionBalls && cueBallToCushion)) {
+      return [];
+    }
+    return [FoulType.IllegalOpeningBreak];
+  }
+
+  //------Public Methods------//
+
+  /**
+   * Creates the object balls of a straight pool rack: the fifteen numbered balls in the triangle, in any order.
+   *
+   * @returns {Ball[]} The racked object balls.
+   */
+  public rackBalls(): Ball[] {
+    const spots: IVector2[] = GameConfig.triangleRackPositions;
+    const numbers: number[] = Random.shuffle([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]);
+
+    return numbers.map((number: number, i: number) => Ball.numbered(Vector2.copy(spots[i]), number));
+  }
+
+  /**
+   * Judges the player's turn: the cue ball must hit a ball, a ball must then be pocketed or reach
+   * a cushion, and the cue ball must not be pocketed. The opening break has its own requirement instead
+   * of the cushion rules.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The current state of the game, including the first collided ball and pocketed balls.
+   * @param {Ball[]} balls - The balls left on the table once the pocketed object balls are taken off.
+   * @returns {IVerdict} The verdict listing the fouls of the turn.
+   */
+  public judgeTurn(player: Player, state: State, balls: Ball[]): IVerdict {
+    const fouls: FoulType[] = [];
+
+    if (!state.firstCollidedBall) {
+      fouls.push(FoulType.NoBallHit);
+    }
+    if (state.pocketedBalls.some((ball: Ball) => ball.color === Color.white)) {
+      fouls.push(FoulType.Scratch);
+    }
+    fouls.push(...(state.isBreak ? this.getBreakFouls(state) : getCushionFouls(state)));
+
+    return { fouls };
+  }
+
+  /**
+   * Gets the object balls the player may hit first with their next shot, which is any of them.
+   *
+   * @param {Player} player - The player about to take their turn.
+   * @param {Ball[]} balls - The balls on the table.
+   * @returns {Ball[]} The object balls on the table.
+   */
+  public getBallsOn(player: Player, balls: Ball[]): Ball[] {
+    return this.getObjectBalls(balls);
+  }
+
+  /**
+   * Determines if the player has to call their shot, which they do on every shot after the break.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The state of the turn.
+   * @returns {boolean} True unless the shot is the break.
+   */
+  public isCallRequired(player: Player, state: State): boolean {
+    return !state.isBreak;
+  }
+
+  /**
+   * Assigns no groups, as the balls are shared in straight pool.
+   *
+   * @param {State} state - The judged state of the turn.
+   * @param {Player} currentPlayer - The player currently taking their turn.
+   * @param {Player} nextPlayer - The opponent of the current player.
+   */
+  public assignGroups(state: State, currentPlayer: Player, nextPlayer: Player): void { }
+
+  /**
+   * Keeps the match score at zero, as straight pool is scored in points.
+   *
+   * @param {Player} player - The player whose score is updated.
+   * @param {Ball[]} balls - The balls left on the table.
+   */
+  public updateMatchScore(player: Player, balls: Ball[]): void {
+    player.matchScore = 0;
+  }
+
+  /**
+   * Gets the points the player scores on the turn: one for each object ball pocketed on a scoring shot,
+   * or the foul penalty after a foul, with the further penalty on every third foul in a row. An illegal
+   * opening break costs the break penalty instead of the foul penalty.
+   *
+   * @param {Player} player - The player currently taking their turn, with the fouls in a row before it.
+   * @param {State} state - The judged state of the turn.
+   * @returns {number} The points scored, negative after a foul.
+   */
+  public getTurnPoints(player: Player, state: State): number {
+    if (!state.isValid) {
+      const fouls: number = player.consecutiveFouls + 1;
+      const isSeriousFoul: boolean = fouls % straightPoolRulesConfig.consecutiveFouls === 0;
+      const penalty: number = state.verdict.fouls.includes(FoulType.IllegalOpeningBreak) ?
+        straightPoolRulesConfig.breakFoulPenalty : straightPoolRulesConfig.foulPenalty;
+
+      return -penalty - (isSeriousFoul ? straightPoolRulesConfig.consecutiveFoulsPenalty : 0);
+    }
+    return this.isScoringShot(state) ? this.getObjectBalls(state.pocketedBalls).length : 0;
+  }
+
+  /**
+   * Gets the points the opponent of the player scores on the turn.
+   *
+   * @param {Player} player - The player currently taking their turn.
+   * @param {State} state - The judged state of the turn.
+   * @returns {number} Zero, as a foul costs the player who committed it points instead.
+   */
+  public getOpponentPoints(player: Player, state: State): number {
+    return 0;
+  }
+
+  /**
+   * Gets the points still to be scored from the balls left on the table.
+   *
+   * @param {Ball[]} balls - The balls left on the table.
+   * @returns {number} Zero, as the balls are re-racked with no end to the points.
+   */
+  public getPointsRemaining(balls: Ball[]): number {
+    return 0;
+  }
+
+  /**
+   * Determines if the current player keeps shooting: they do after a legal break that pocketed a ball,
+   * and after a legal shot that made its call.
+   *
+   * @param {State} state - The state of the turn that ended.
+   * @returns {boolean} True if the same player shoots again, false if the opponent takes over.
+   */
+  public keepsTurn(state: State): boolean {
+    return this.isScoringShot(state) && this.getObjectBalls(state.pocketedBalls).length > 0;
+  }
+
+  /**
+   * Gets where the opponent of a player who fouled may place the cue ball in hand: behind the head string
+   * if the cue ball was pocketed, and otherwise the cue ball is played from where it lies.
+   *
+   * @param {State} state - The state of the turn on which the foul was committed.
+   * @returns {BallInHandZone} The kitchen, or none if the cue ball is played from where it lies.
+   */
+  public getBallInHandZone(state: State): BallInHandZone {
+    const scratched: boolean = state.pocketedBalls.some((ball: Ball) => ball.color === Color.white);
+
+    return scratched ? BallInHandZone.Kitchen : BallInHandZone.None;
+  }
+
+  /**
+   * Gets the object balls pocketed on a shot that did not score, which are spotted again.
+   *
+   * @param {State} state - The state of the turn that ended.
+   * @returns {Ball[]} The balls to spot.
+   */
+  public getBallsToSpot(state: State): Ball[] {
+    return this.isScoringShot(state) ? [] : this.getObjectBalls(state.pocketedBalls);
+  }
+
+  /**
+   * Gets the spots a pocketed ball may be put back on.
+   *
+   * @param {Ball} ball - The ball to spot.
+   * @returns {IVector2[]} The foot spot.
+   */
+  public getSpotPositions(ball: Ball): IVector2[] {
+    return [GameConfig.footSpotPosition];
+  }
+
+  /**
+   * Gets the balls to re-rack once at most one object ball is left on the table. The missing balls
+   * fill the triangle from its back, leaving the apex empty when one ball is left.
+   *
+   * @param {Ball[]} balls - The balls left on the table.
+   * @returns {Ball[]} The re-racked balls in their positions, or none if no re-rack is due.
+   */
+  public rerackBalls(balls: Ball[]): Ball[] {
+    const numbersLeft: number[] = this.getObjectBalls(balls).map((ball: Ball) => ball.number);
+
+    if (numbersLeft.length > 1) {
+      return [];
+    }
+
+    const spots: IVector2[] = GameConfig.triangleRackPositions.slice(numbersLeft.length);
+    const numbers: number[] = Random.shuffle(
+      [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15].filter((number: number) => !numbersLeft.includes(number))
+    );
+
+    return numbers.map((number: number, i: number) => Ball.numbered(Vector2.copy(spots[i]), number));
+  }
+
+  /**
+   * Determines if the game is over, which happens when the current player reaches the target score.
+   *
+   * @param {Player} currentPlayer - The player currently taking their turn, with the points of the turn counted.
+   * @param {State} state - The state of the turn.
+   * @returns {boolean} True if the game is over, false otherwise.
+   */
+  public isGameOver(currentPlayer: Player, state: State): boolean {
+    return currentPlayer.points >= straightPoolRulesConfig.targetScore;
+  }
+
+  /**
+   * Gets the winner of a game that is over: the current player once they reach the target score,
+   * as only a legal shot can take them there.
+   *
+   * @param {Player} currentPlayer - The player who took the last turn.
+   * @param {Player} nextPlayer - The opponent of the current player.
+   * @param {State} state - The judged state of the last turn.
+   * @returns {Player} The player who won the game.
+   */
+  public getWinner(currentPlayer: Player, nextPlayer: Player, state: State): Player {
+    return currentPlayer;
+  }
+
+  /**
+   * Takes a snapshot of the state the rules keep from turn to turn, which is none for these rules.
+   *
+   * @returns {IRuleSetSnapshot} An empty snapshot.
+   */
+  public snapshot(): IRuleSetSnapshot {
+    return {};
+  }
+
+  /**
+   * Restores the state the rules keep from turn to turn, which is none for these rules.
+   *
+   * @param {IRuleSetSnapshot} snapshot - The snapshot taken of the rules.
+   */
+  public restore(snapshot: IRuleSetSnapshot): void { }
+}
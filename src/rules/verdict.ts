@@ -0,0 +1,11 @@
+import { FoulType } from './foul-type';
+
+/**
+ * IVerdict
+ *
+ * This interface describes the ruling a rule set gives on a turn: every foul the player committed.
+ * The turn is legal when the list is empty.
+ */
+export interface IVerdict {
+  fouls: FoulType[]; // The fouls committed on the turn, in the order they were checked
+}
@@ -0,0 +1,60 @@
+import { Color } from '../../src/common/color';
+import { Vector2 } from '../../src/physics/vector2';
+import { Ball } from '../../src/game-objects/ball';
+import { Player } from '../../src/game-objects/player';
+import { State } from '../../src/game-objects/state';
+import { BlackballRuleSet } from '../../src/rules/blackball-rule-set';
+import { BallInHandZone } from '../../src/rules/ball-in-hand-zone';
+import { FoulType } from '../../src/rules/foul-type';
+
+describe('BlackballRuleSet', () => {
+  const rules: BlackballRuleSet = new BlackballRuleSet();
+  const cueBall: Ball = new Ball(Vector2.zero, Color.white);
+  const red: Ball = new Ball(Vector2.zero, Color.red);
+  const yellow: Ball = new Ball(Vector2.zero, Color.yellow);
+
+  let player: Player;
+
+  beforeEach(() => {
+    player = new Player();
+  });
+
+  it('calls a foul when no ball reaches a cushion after the first contact', () => {
+    const state: State = new State();
+    state.firstCollidedBall = red;
+    state.firstCollidedBallColor = Color.red;
+    player.color = Color.red;
+
+    expect(rules.judgeTurn(player, state, [red, yellow]).fouls).toEqual([FoulType.NoRailAfterContact]);
+  });
+
+  describe('a break driving too few balls to the cushions', () => {
+    let state: State;
+
+    beforeEach(() => {
+      state = new State();
+      state.isBreak = true;
+      state.firstCollidedBall = red;
+      state.firstCollidedBallColor = Color.red;
+      state.cushionContacts = [red, yellow];
+    });
+
+    it('is an illegal break the opponent may re-rack', () => {
+      expect(rules.judgeTurn(player, state, [red, yellow]).fouls).toEqual([FoulType.IllegalBreak]);
+      expect(rules.illegalBreakOption).toBe(true);
+    });
+
+    it('leaves the table to be taken as it lies', () => {
+      state.verdict = rules.judgeTurn(player, state, [red, yellow]);
+
+      expect(rules.getBallInHandZone(state)).toBe(BallInHandZone.None);
+    });
+
+    it('gives the cue ball in hand in the kitchen after a scratch', () => {
+      state.pocketedBalls = [cueBall];
+      state.verdict = rules.judgeTurn(player, state, [red, yellow]);
+
+      expect(rules.getBallInHandZone(state)).toBe(BallInHandZone.Kitchen);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { Color } from '../../src/common/color';
+import { Vector2 } from '../../src/physics/vector2';
+import { Ball } from '../../src/game-objects/ball';
+import { Player } from '../../src/game-objects/player';
+import { State } from '../../src/game-objects/state';
+import { EightBallRuleSet } from '../../src/rules/eight-ball-rule-set';
+import { BallInHandZone } from '../../src/rules/ball-in-hand-zone';
+import { FoulType } from '../../src/rules/foul-type';
+
+describe('EightBallRuleSet', () => {
+  const rules: EightBallRuleSet = new EightBallRuleSet();
+  const cueBall: Ball = new Ball(Vector2.zero, Color.white);
+  const eightBall: Ball = Ball.numbered(Vector2.zero, 8);
+  const solid: Ball = Ball.numbered(Vector2.zero, 3);
+  const stripe: Ball = Ball.numbered(Vector2.zero, 12);
+
+  let player: Player;
+  let opponent: Player;
+
+  beforeEach(() => {
+    player = new Player();
+    opponent = new Player();
+  });
+
+  describe('a scratch while on the 8', () => {
+    beforeEach(() => {
+      player.color = Color.solid;
+      player.matchScore = 7;
+    });
+
+    it('is a foul that gives the opponent the cue ball in hand without ending the game', () => {
+      const state: State = new State();
+      state.firstCollidedBall = eightBall;
+      state.firstCollidedBallColor = Color.black;
+      state.pocketedBalls = [cueBall];
+      state.cushionContacts = [eightBall];
+
+      const fouls: FoulType[] = rules.judgeTurn(player, state, [eightBall, stripe]).fouls;
+
+      expect(fouls).toEqual([FoulType.Scratch]);
+      expect(rules.isGameOver(player, state)).toBe(false);
+    });
+
+    it('loses the game when the 8 goes down with the cue ball', () => {
+      const state: State = new State();
+      state.firstCollidedBall = eightBall;
+      state.firstCollidedBallColor = Color.black;
+      state.pocketedBalls = [eightBall, cueBall];
+      player.matchScore = 8;
+      state.verdict = rules.judgeTurn(player, state, [stripe]);
+      state.isValid = state.verdict.fouls.length === 0;
+
+      expect(rules.isGameOver(player, state)).toBe(true);
+      expect(rules.getWinner(player, opponent, state)).toBe(opponent);
+    });
+  });
+
+  describe('the 8 on the break', () => {
+    let state: State;
+
+    beforeEach(() => {
+      state = new State();
+      state.isBreak = true;
+      state.firstCollidedBall = solid;
+      state.firstCollidedBallColor = Color.solid;
+      state.pocketedBalls = [eightBall];
+    });
+
+    it('is not a foul and does not end the game', () => {
+      expect(rules.judgeTurn(player, state, [solid, stripe]).fouls).toEqual([]);
+      expect(rules.isGameOver(player, state)).toBe(false);
+    });
+
+    it('is spotted again', () => {
+      expect(rules.getBallsToSpot(state)).toEqual([eightBall]);
+    });
+
+    it('is spotted again after a scratch, which stays a foul', () => {
+      state.pocketedBalls = [eightBall, cueBall];
+
+      expect(rules.judgeTurn(player, state, [solid, stripe]).fouls).toEqual([FoulType.Scratch]);
+      expect(rules.isGameOver(player, state)).toBe(false);
+      expect(rules.getBallsToSpot(state)).toEqual([eightBall]);
+    });
+  });
+
+  describe('an illegal break', () => {
+    let state: State;
+
+    beforeEach(() => {
+      state = new State();
+      state.isBreak = true;
+      state.firstCollidedBall = solid;
+      state.firstCollidedBallColor = Color.solid;
+      state.cushionContacts = [solid];
+    });
+
+    it('leaves the table to be taken as it lies when the opponent plays on', () => {
+      state.verdict = rules.judgeTurn(player, state, [solid, stripe]);
+
+      expect(state.verdict.fouls).toEqual([FoulType.IllegalBreak]);
+      expect(rules.getBallInHandZone(state)).toBe(BallInHandZone.None);
+    });
+
+    it('gives the cue ball in hand in the kitchen after a scratch', () => {
+      state.pocketedBalls = [cueBall];
+      state.verdict = rules.judgeTurn(player, state, [solid, stripe]);
+
+      expect(rules.getBallInHandZone(state)).toBe(BallInHandZone.Kitchen);
+    });
+  });
+});
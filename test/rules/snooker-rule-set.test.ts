@@ -0,0 +1,23 @@
+import { GameConfig } from '../../src/game.config';
+import { Color } from '../../src/common/color';
+import { Vector2 } from '../../src/physics/vector2';
+import { Ball } from '../../src/game-objects/ball';
+import { SnookerRuleSet } from '../../src/rules/snooker-rule-set';
+
+describe('SnookerRuleSet', () => {
+  const rules: SnookerRuleSet = new SnookerRuleSet();
+  const spots = GameConfig.snookerSpots;
+
+  it('spots a colour on its own spot first', () => {
+    expect(rules.getSpotPositions(new Ball(Vector2.zero, Color.blue))[0]).toBe(spots.blue);
+  });
+
+  it('falls back on the other colour spots from the highest value down', () => {
+    expect(rules.getSpotPositions(new Ball(Vector2.zero, Color.green))).toEqual([
+      spots.green, spots.black, spots.pink, spots.blue, spots.brown, spots.yellow,
+    ]);
+    expect(rules.getSpotPositions(new Ball(Vector2.zero, Color.black))).toEqual([
+      spots.black, spots.pink, spots.blue, spots.brown, spots.green, spots.yellow,
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import { Color } from '../../src/common/color';
+import { Vector2 } from '../../src/physics/vector2';
+import { Ball } from '../../src/game-objects/ball';
+import { Player } from '../../src/game-objects/player';
+import { State } from '../../src/game-objects/state';
+import { StraightPoolRuleSet } from '../../src/rules/straight-pool-rule-set';
+import { FoulType } from '../../src/rules/foul-type';
+
+describe('StraightPoolRuleSet', () => {
+  const rules: StraightPoolRuleSet = new StraightPoolRuleSet();
+  const cueBall: Ball = new Ball(Vector2.zero, Color.white);
+  const one: Ball = Ball.numbered(Vector2.zero, 1);
+  const two: Ball = Ball.numbered(Vector2.zero, 2);
+
+  let player: Player;
+
+  beforeEach(() => {
+    player = new Player();
+  });
+
+  describe('the opening break', () => {
+    let state: State;
+
+    beforeEach(() => {
+      state = new State();
+      state.isBreak = true;
+      state.firstCollidedBall = one;
+      state.firstCollidedBallColor = one.color;
+    });
+
+    it('is legal when two object balls and the cue ball reach the cushions', () => {
+      state.cushionContacts = [one, two, cueBall];
+
+      expect(rules.judgeTurn(player, state, [one, two]).fouls).toEqual([]);
+    });
+
+    it('is illegal when the cue ball stays off the cushions', () => {
+      state.cushionContacts = [one, two, one];
+
+      expect(rules.judgeTurn(player, state, [one, two]).fouls).toEqual([FoulType.IllegalOpeningBreak]);
+    });
+
+    it('is illegal when one object ball reaches the cushions', () => {
+      state.cushionContacts = [one, cueBall, one];
+
+      expect(rules.judgeTurn(player, state, [one, two]).fouls).toEqual([FoulType.IllegalOpeningBreak]);
+    });
+
+    it('is legal when it makes its call', () => {
+      state.calledBall = two;
+      state.calledPocket = 0;
+      state.pocketedBalls = [two];
+      state.ballPockets.set(two, 0);
+
+      expect(rules.judgeTurn(player, state, [one]).fouls).toEqual([]);
+    });
+
+    it('costs the break penalty when illegal', () => {
+      state.verdict = rules.judgeTurn(player, state, [one, two]);
+      state.isValid = state.verdict.fouls.length === 0;
+
+      expect(rules.getTurnPoints(player, state)).toBe(-2);
+    });
+  });
+});
@@ -1,14 +1,25 @@
 const path = require('path');
 
 module.exports = {
-  entry: './src/game.ts',
+  entry: {
+    bundle: './src/game.ts',
+    'ai-worker': './src/ai/ai-worker.ts'
+  },
   mode: 'production',
   module: {
     rules: [
+      {
+        test: /ai-worker\.ts$/,
+        loader: 'ts-loader',
+        options: {
+          instance: 'worker',
+          configFile: 'tsconfig.worker.json'
+        }
+      },
       {
         test: /\.tsx?$/,
         use: 'ts-loader',
-        exclude: /node_modules/
+        exclude: [/node_modules/, /ai-worker\.ts$/]
       }
     ]
   },
@@ -16,7 +27,7 @@ module.exports = {
     extensions: ['.tsx', '.ts', '.js']
   },
   output: {
-    filename: 'bundle.js',
+    filename: '[name].js',
     path: path.resolve(__dirname, 'dist')
   }
 };
\ No newline at end of file